@@ -0,0 +1,93 @@
+// accepted-tokens.ts - registry of SPL mints readers can pay with
+import { config } from './config';
+import { mintRegistry } from './mint-registry';
+import { pricing } from './pricing';
+import { SolanaRpcClient, getRpcClient } from './solana-rpc';
+import type { RevenueSplit } from './types';
+import { validateSolanaAddress } from './validation';
+
+// Used when SPL_TOKEN_MINT is not set
+export const DEFAULT_SPL_TOKEN_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+
+/**
+ * A mint the paywall accepts. `price` is the value of one whole token in the
+ * pricing currency (article prices and deposit limits), so a token worth 0.5
+ * costs twice as many units per article.
+ */
+export interface AcceptedToken {
+  mint: string;
+  symbol: string;
+  price: number;
+}
+
+/**
+ * What a payer has to send in one accepted token. An article payment also
+ * carries how it is split between payees; without splits it all goes to
+ * the recipient wallet.
+ */
+export interface PaymentRequirement {
+  token: string;
+  symbol: string;
+  decimals: number;
+  amount: number;
+  amountSmallestUnit: bigint;
+  splits?: RevenueSplit[];
+}
+
+/**
+ * Accepted tokens from ACCEPTED_TOKENS, or just the default SPL_TOKEN_MINT
+ * priced at 1 when none are configured. Each token's symbol comes from its
+ * entry or MINT_METADATA; the default mint is named after the pricing
+ * currency. A token with no symbol is rejected rather than shown to payers
+ * under a made-up name.
+ */
+export function getAcceptedTokens(defaultMint: string): AcceptedToken[] {
+  const configured = config.acceptedTokens.length > 0
+    ? config.acceptedTokens
+    : [{ mint: defaultMint }];
+
+  return configured.map(entry => {
+    if (!validateSolanaAddress(entry.mint)) {
+      throw new Error(`Invalid accepted token mint address: ${entry.mint}`);
+    }
+
+    const price = entry.price ?? 1;
+    if (!(price > 0)) {
+      throw new Error(`Accepted token ${entry.mint} must have a positive price`);
+    }
+
+    const symbol = entry.symbol
+      || config.mintMetadata[entry.mint]?.symbol
+      || (entry.mint === defaultMint ? pricing.CURRENCY_NAME : undefined);
+    if (!symbol) {
+      throw new Error(`Accepted token ${entry.mint} has no symbol; set one in ACCEPTED_TOKENS or MINT_METADATA`);
+    }
+
+    return { mint: entry.mint, symbol, price };
+  });
+}
+
+/**
+ * Convert an amount in the pricing currency into what each accepted token
+ * requires, in token units and in the mint's smallest unit. The smallest
+ * unit is read off the decimal string, so a price like 2.01 is exactly
+ * 2010000 and not the 2009999 a float product rounds down to.
+ */
+export async function getPaymentRequirements(
+  amount: number,
+  tokens: AcceptedToken[],
+  rpcClient: SolanaRpcClient = getRpcClient()
+): Promise<PaymentRequirement[]> {
+  return Promise.all(tokens.map(async (token) => {
+    const mint = await mintRegistry.get(token.mint, rpcClient);
+    const fixedAmount = (amount / token.price).toFixed(mint.decimals);
+
+    return {
+      token: token.mint,
+      symbol: token.symbol,
+      decimals: mint.decimals,
+      amount: Number(fixedAmount),
+      amountSmallestUnit: BigInt(fixedAmount.replace('.', ''))
+    };
+  }));
+}
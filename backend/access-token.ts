@@ -0,0 +1,152 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { config } from './config';
+
+export interface AccessTokenClaims {
+  sub: string;
+  article: string;
+  ref?: string;
+  iat: number;
+  exp: number;
+}
+
+/**
+ * Claims of a wallet session token, issued after a Sign-In With Solana
+ * login. `scope` keeps session and article tokens from being swapped.
+ */
+export interface SessionTokenClaims {
+  sub: string;
+  scope: 'session';
+  iat: number;
+  exp: number;
+}
+
+export interface AccessTokenSubject {
+  articleId: string;
+  payer?: string;
+  reference?: string;
+}
+
+const TOKEN_HEADER = { alg: 'HS256', typ: 'JWT' };
+
+function base64UrlEncode(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(data: string, secret: string): string {
+  return createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function encodeToken(claims: object, secret: string): string {
+  const unsigned = `${base64UrlEncode(JSON.stringify(TOKEN_HEADER))}.${base64UrlEncode(JSON.stringify(claims))}`;
+  return `${unsigned}.${sign(unsigned, secret)}`;
+}
+
+/**
+ * Check a token's signature, algorithm and expiry and return its claims,
+ * or null if any check fails
+ */
+function decodeToken(token: string, secret: string): Record<string, any> | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) {
+    return null;
+  }
+
+  const [encodedHeader, encodedClaims, signature] = parts;
+  const expected = Buffer.from(sign(`${encodedHeader}.${encodedClaims}`, secret));
+  const received = Buffer.from(signature);
+
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+    return null;
+  }
+
+  try {
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'));
+    if (header.alg !== TOKEN_HEADER.alg) {
+      return null;
+    }
+
+    const claims = JSON.parse(Buffer.from(encodedClaims, 'base64url').toString('utf-8'));
+    if (!claims || typeof claims.exp !== 'number' || claims.exp <= Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Issue a short-lived HS256 JWT granting access to a single article.
+ * Issued after a verified x402 payment so reloads and retries can skip
+ * on-chain verification.
+ */
+export function issueAccessToken(
+  subject: AccessTokenSubject,
+  ttlSeconds: number = config.accessTokenTtl,
+  secret: string = config.accessTokenSecret
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: AccessTokenClaims = {
+    sub: subject.payer || 'anonymous',
+    article: subject.articleId,
+    ref: subject.reference,
+    iat: now,
+    exp: now + ttlSeconds
+  };
+
+  return encodeToken(claims, secret);
+}
+
+/**
+ * Verify an access token's signature and expiry.
+ * Returns the claims, or null if the token is malformed, forged or expired.
+ */
+export function verifyAccessToken(
+  token: string,
+  secret: string = config.accessTokenSecret
+): AccessTokenClaims | null {
+  const claims = decodeToken(token, secret);
+  if (!claims || typeof claims.article !== 'string') {
+    return null;
+  }
+
+  return claims as AccessTokenClaims;
+}
+
+/**
+ * Issue an HS256 JWT proving the holder signed in as `walletAddress`.
+ * Required before a wallet's prepaid budget can be spent.
+ */
+export function issueSessionToken(
+  walletAddress: string,
+  ttlSeconds: number = config.sessionTokenTtl,
+  secret: string = config.accessTokenSecret
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: SessionTokenClaims = {
+    sub: walletAddress,
+    scope: 'session',
+    iat: now,
+    exp: now + ttlSeconds
+  };
+
+  return encodeToken(claims, secret);
+}
+
+/**
+ * Verify a session token's signature and expiry.
+ * Returns the claims, or null if the token is malformed, forged, expired or
+ * not a session token.
+ */
+export function verifySessionToken(
+  token: string,
+  secret: string = config.accessTokenSecret
+): SessionTokenClaims | null {
+  const claims = decodeToken(token, secret);
+  if (!claims || claims.scope !== 'session' || typeof claims.sub !== 'string') {
+    return null;
+  }
+
+  return claims as SessionTokenClaims;
+}
@@ -0,0 +1,89 @@
+// agent-keys.ts - delegated budget spending keys for AI agents
+import { createHash, randomBytes } from 'crypto';
+import { AgentKeyRecord } from './types';
+
+const AGENT_KEY_PREFIX = 'x402_ak_';
+
+export interface AgentKeyMessageFields {
+  walletAddress: string;
+  label?: string;
+  spendCap: number;
+  maxArticlePrice?: number;
+  allowedTags?: string[];
+  expiresAt: string;
+  nonce: string;
+  issuedAt: string;
+}
+
+/**
+ * The exact text a wallet signs to create an agent key, covering every
+ * limit the key is created with
+ */
+export function buildAgentKeyMessage(fields: AgentKeyMessageFields): string {
+  return [
+    'Create agent key',
+    `Wallet: ${fields.walletAddress}`,
+    `Label: ${fields.label ?? ''}`,
+    `Spend Cap: ${fields.spendCap}`,
+    `Max Article Price: ${fields.maxArticlePrice ?? 'none'}`,
+    `Allowed Tags: ${fields.allowedTags && fields.allowedTags.length > 0 ? fields.allowedTags.join(', ') : 'any'}`,
+    `Expires At: ${fields.expiresAt}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  ].join('\n');
+}
+
+/**
+ * Generate a new agent key. Only the hash is stored; the key itself is
+ * shown to the wallet owner once.
+ */
+export function generateAgentKey(): { key: string; keyHash: string } {
+  const key = `${AGENT_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return { key, keyHash: hashAgentKey(key) };
+}
+
+export function hashAgentKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Tags are matched case-insensitively
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return Array.from(new Set(tags.map(tag => tag.trim().toLowerCase()).filter(tag => tag.length > 0)));
+}
+
+export function isAgentKeyActive(agentKey: AgentKeyRecord | null): agentKey is AgentKeyRecord {
+  return !!agentKey && !agentKey.revoked_at && agentKey.expires_at > Math.floor(Date.now() / 1000);
+}
+
+/**
+ * Whether a key with a tag filter may be used on an article with these tags
+ */
+export function isArticleAllowed(agentKey: AgentKeyRecord, articleTags: string[]): boolean {
+  if (!agentKey.allowed_tags || agentKey.allowed_tags.length === 0) {
+    return true;
+  }
+
+  const tags = normalizeTags(articleTags);
+  return tags.some(tag => agentKey.allowed_tags!.includes(tag));
+}
+
+/**
+ * Agent key as returned by the API, without its hash
+ */
+export function describeAgentKey(agentKey: AgentKeyRecord) {
+  return {
+    id: agentKey.id,
+    walletAddress: agentKey.wallet_address,
+    label: agentKey.label ?? null,
+    spendCap: agentKey.spend_cap,
+    spent: agentKey.spent,
+    maxArticlePrice: agentKey.max_article_price ?? null,
+    allowedTags: agentKey.allowed_tags ?? null,
+    expiresAt: new Date(agentKey.expires_at * 1000).toISOString(),
+    revokedAt: agentKey.revoked_at ? new Date(agentKey.revoked_at * 1000).toISOString() : null,
+    active: isAgentKeyActive(agentKey),
+    createdAt: new Date(agentKey.created_at * 1000).toISOString()
+  };
+}
@@ -1,22 +1,39 @@
+// Load .env before any module reads the configuration
+import 'dotenv/config';
 import cors from 'cors';
-import dotenv from 'dotenv';
+import { createHash, timingSafeEqual } from 'crypto';
 import * as path from 'path';
 import { v4 as uuidv4 } from 'uuid';
 import { storage } from './storage';
-import { address } from '@solana/kit';
 import ArticleService from './article-service';
 import { budgetLogger, logger } from './logger';
-import { fetchMint } from '@solana-program/token';
 import express, { Request, Response } from 'express';
 import { errorHandler, asyncHandler } from './error-handler';
-import { x402Paywall, budgetPaywall, verifyTransaction, requirePayment, rpc } from './paywall';
+import { x402Paywall, budgetPaywall, resolveArticle, accessTokenPaywall, refundOnFailure, verifyTransaction, requirePayment, queuePaymentConfirmation, describePaymentConfirmation } from './paywall';
+import { paymentConfirmationWorker } from './payment-confirmations';
+import { getRpcClient } from './solana-rpc';
+import { mintRegistry } from './mint-registry';
+import { AcceptedToken, DEFAULT_SPL_TOKEN_MINT, getAcceptedTokens, getPaymentRequirements } from './accepted-tokens';
 import { generalRateLimit, paymentRateLimit, budgetRateLimit, articleRateLimit } from './rate-limiter';
+import { createIdempotencyMiddleware } from './idempotency';
+import { verifyWalletSignature, checkSignedRequest } from './wallet-signature';
+import { buildWithdrawalMessage, payoutProcessor } from './payouts';
+import { buildSignInMessage, SIGN_IN_STATEMENT } from './siws';
+import { issueSessionToken, verifySessionToken } from './access-token';
+import { buildAgentKeyMessage, generateAgentKey, normalizeTags, describeAgentKey } from './agent-keys';
+import { describeSpendingLimits } from './spending-limits';
+import { WEBHOOK_EVENT_TYPES, describeWebhook, generateWebhookSecret, isValidWebhookUrl, checkWebhookHost, webhookDispatcher } from './webhooks';
+import { describeDiscrepancy, describeReconciliationRun, reconciler } from './reconciliation';
+import { getAccountBalance } from './ledger';
+import { authorRegistry, describeAuthor } from './authors';
 import { pricing, validateDepositAmount, getPricingInfo } from './pricing';
-
-dotenv.config();
+import { TransferCursor, TransferFilter, TransferType, TRANSFER_TYPES, WebhookEventType } from './types';
+import { validateReference, validateSolanaAddress } from './validation';
+import { config as appConfig } from './config';
 
 interface Config {
   splToken: string;
+  acceptedTokens: AcceptedToken[];
   recipientWallet: string | undefined;
   articlesPath: string;
 }
@@ -30,6 +47,8 @@ interface AgentTool {
 
 interface ExtendedRequest extends Request {
   x402_payment_method?: string;
+  x402_article_price?: number;
+  x402_access_token?: string;
   cms_access_granted?: boolean;
 }
 
@@ -38,6 +57,59 @@ interface DepositRequestBody {
   reference: string;
   payerPubkey: string;
   amount: number;
+  tokenMint?: string;
+}
+
+interface WithdrawalRequestBody {
+  payerPubkey: string;
+  amount: number;
+  tokenMint?: string;
+  nonce: string;
+  issuedAt: string;
+  signature: string;
+}
+
+interface SignInRequestBody {
+  address: string;
+  nonce: string;
+  signature: string;
+}
+
+interface AgentKeyRequestBody {
+  walletAddress: string;
+  label?: string;
+  spendCap: number;
+  maxArticlePrice?: number;
+  allowedTags?: string[];
+  expiresAt: string;
+  nonce: string;
+  issuedAt: string;
+  signature: string;
+}
+
+interface SpendingLimitsRequestBody {
+  dailyLimit?: number | null;
+  monthlyLimit?: number | null;
+  maxArticlePrice?: number | null;
+}
+
+interface WebhookRequestBody {
+  url: string;
+  events: string[];
+  lowBalanceThreshold?: number;
+}
+
+interface SessionRequest extends Request {
+  x402_session_wallet?: string;
+}
+
+// An amount of one token on one cluster, in the token's smallest unit
+interface TokenAmount {
+  tokenSymbol: string;
+  tokenMintAddress: string;
+  cluster: string;
+  amount: number;
+  decimal: number;
 }
 
 const app = express();
@@ -51,8 +123,10 @@ app.use(express.json());
 app.use(generalRateLimit);
 
 // Configuration
+const splToken = process.env.SPL_TOKEN_MINT || DEFAULT_SPL_TOKEN_MINT;
 const CONFIG: Config = {
-  splToken: process.env.SPL_TOKEN_MINT || "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", // USDC devnet
+  splToken,
+  acceptedTokens: getAcceptedTokens(splToken),
   recipientWallet: process.env.MY_WALLET_ADDRESS,
   articlesPath: process.env.ARTICLES_PATH || path.join(__dirname, "articles"),
 };
@@ -63,10 +137,14 @@ if (!CONFIG.recipientWallet || CONFIG.recipientWallet === 'YOUR_RECIPIENT_WALLET
   logger.warn('Please set your actual Solana wallet address in the .env file to receive payments');
 }
 
+if (!appConfig.accessTokenSecretConfigured) {
+  logger.warn('ACCESS_TOKEN_SECRET not set - access tokens will be invalidated when the server restarts');
+}
+
 if (process.env.NODE_ENV === 'development') {
   logger.info({
     articlesPath: CONFIG.articlesPath,
-    splToken: CONFIG.splToken,
+    acceptedTokens: CONFIG.acceptedTokens.map(token => token.mint),
     recipientWallet: CONFIG.recipientWallet || 'NOT SET'
   }, 'Development mode enabled - configuration loaded');
 }
@@ -177,9 +255,12 @@ app.get("/api/agent/get-article-free", articleRateLimit, asyncHandler(async (req
 app.get(
   "/api/agent/get-article",
   articleRateLimit,                          // 0. Rate limit first
-  budgetPaywall({ amount: pricing.ARTICLE_COST, splToken: CONFIG.splToken }), // 1. Check budget first
-  x402Paywall({ amount: pricing.ARTICLE_COST, splToken: CONFIG.splToken, recipientWallet: CONFIG.recipientWallet! }),  // 2. Fallback to 402
-  requirePayment,                            // 3. Ensure payment was made
+  resolveArticle(articleService),            // 1. 404 unknown articles before charging
+  accessTokenPaywall,                        // 2. Accept a token from an earlier x402 payment
+  budgetPaywall({ amount: pricing.ARTICLE_COST, acceptedTokens: CONFIG.acceptedTokens }), // 3. Check budget
+  x402Paywall({ amount: pricing.ARTICLE_COST, acceptedTokens: CONFIG.acceptedTokens, recipientWallet: CONFIG.recipientWallet! }),  // 4. Fallback to 402
+  requirePayment,                            // 5. Ensure payment was made
+  refundOnFailure,                           // 6. Refund if the article cannot be delivered
   asyncHandler(async (req: ExtendedRequest, res: Response) => {
     const articleId = req.query.id as string;
 
@@ -224,7 +305,8 @@ ${article.fullContent}`;
     res.json({
       context,
       article,
-      paymentMethod: req.x402_payment_method || "unknown"
+      paymentMethod: req.x402_payment_method || "unknown",
+      accessToken: req.x402_access_token
     });
   })
 );
@@ -252,9 +334,12 @@ app.get("/api/articles/:id/preview", articleRateLimit, asyncHandler(async (req:
 app.get(
   "/api/articles/:id",
   articleRateLimit,                          // 0. Rate limit first
-  budgetPaywall({ amount: pricing.ARTICLE_COST, splToken: CONFIG.splToken }), // 1. Check budget first
-  x402Paywall({ amount: pricing.ARTICLE_COST, splToken: CONFIG.splToken, recipientWallet: CONFIG.recipientWallet! }),  // 2. Fallback to 402
-  requirePayment,                            // 3. Ensure payment was made
+  resolveArticle(articleService),            // 1. 404 unknown articles before charging
+  accessTokenPaywall,                        // 2. Accept a token from an earlier x402 payment
+  budgetPaywall({ amount: pricing.ARTICLE_COST, acceptedTokens: CONFIG.acceptedTokens }), // 3. Check budget
+  x402Paywall({ amount: pricing.ARTICLE_COST, acceptedTokens: CONFIG.acceptedTokens, recipientWallet: CONFIG.recipientWallet! }),  // 4. Fallback to 402
+  requirePayment,                            // 5. Ensure payment was made
+  refundOnFailure,                           // 6. Refund if the article cannot be delivered
   asyncHandler(async (req: ExtendedRequest, res: Response) => {
     const { id } = req.params;
     const article = await articleService.getArticle(id);
@@ -266,22 +351,325 @@ app.get(
     res.json({
       ...article,
       paymentMethod: req.x402_payment_method || "unknown",
+      accessToken: req.x402_access_token,
       accessTimestamp: new Date().toISOString()
     });
   })
 );
 
+// Sign-In With Solana: a session token proves wallet ownership for budget spending
+app.get("/api/auth/nonce", budgetRateLimit, asyncHandler(async (req: Request, res: Response) => {
+  const { address } = req.query;
+
+  if (address !== undefined && (typeof address !== 'string' || !validateSolanaAddress(address))) {
+    return res.status(400).json({ error: "Invalid address" });
+  }
+
+  const domain = appConfig.siwsDomain || req.get('host') || 'localhost';
+  const now = Math.floor(Date.now() / 1000);
+  const nonce = {
+    nonce: uuidv4().replace(/-/g, ''),
+    domain,
+    uri: `${req.protocol}://${domain}`,
+    expires_at: now + appConfig.authNonceTtl,
+    created_at: now
+  };
+
+  await storage.createAuthNonce(nonce);
+
+  res.json({
+    nonce: nonce.nonce,
+    domain: nonce.domain,
+    uri: nonce.uri,
+    statement: SIGN_IN_STATEMENT,
+    version: '1',
+    chainId: appConfig.solanaNetwork,
+    issuedAt: new Date(nonce.created_at * 1000).toISOString(),
+    expirationTime: new Date(nonce.expires_at * 1000).toISOString(),
+    // With an address, the exact message to sign is returned ready-made
+    message: address ? buildSignInMessage(address, nonce) : undefined
+  });
+}));
+
+app.post("/api/auth/verify", budgetRateLimit, asyncHandler(async (req: Request, res: Response) => {
+  const { address, nonce, signature }: SignInRequestBody = req.body;
+
+  if (!address || !nonce || !signature) {
+    return res.status(400).json({ error: "Incomplete request (address, nonce, signature required)" });
+  }
+
+  if (typeof address !== 'string' || !validateSolanaAddress(address) || typeof nonce !== 'string') {
+    return res.status(400).json({ error: "Invalid address or nonce" });
+  }
+
+  const nonceRecord = await storage.getAuthNonce(nonce);
+  if (!nonceRecord) {
+    return res.status(401).json({ error: "Unknown, used or expired nonce, request a new one", code: 'NONCE_INVALID' });
+  }
+
+  if (!await verifyWalletSignature(address, buildSignInMessage(address, nonceRecord), signature)) {
+    return res.status(401).json({ error: "Signature does not match address", code: 'INVALID_SIGNATURE' });
+  }
+
+  // The nonce is only used up by a valid signature, and only once
+  if (!await storage.consumeAuthNonce(nonce)) {
+    return res.status(401).json({ error: "Unknown, used or expired nonce, request a new one", code: 'NONCE_INVALID' });
+  }
+
+  const sessionToken = issueSessionToken(address);
+  budgetLogger.info({ payer: address }, "Wallet signed in");
+
+  res.json({
+    sessionToken,
+    address,
+    expiresAt: new Date((Math.floor(Date.now() / 1000) + appConfig.sessionTokenTtl) * 1000).toISOString()
+  });
+}));
+
+/**
+ * Require a session token (x402-session-token header) for wallet-owner routes
+ */
+const requireSession = (req: SessionRequest, res: Response, next: express.NextFunction) => {
+  const sessionTokenHeader = req.headers["x402-session-token"];
+  const sessionToken = Array.isArray(sessionTokenHeader) ? sessionTokenHeader[0] : sessionTokenHeader;
+  const session = sessionToken ? verifySessionToken(sessionToken) : null;
+
+  if (!session || !validateSolanaAddress(session.sub)) {
+    return res.status(401).json({ error: "Session token is invalid or expired, sign in again", code: 'SESSION_INVALID' });
+  }
+
+  req.x402_session_wallet = session.sub;
+  next();
+};
+
+// Agent keys: delegated budget spending for AI agents, created by a wallet-signed request
+app.post("/api/agent-keys", budgetRateLimit, asyncHandler(async (req: Request, res: Response) => {
+  const { walletAddress, label, spendCap, maxArticlePrice, allowedTags, expiresAt, nonce, issuedAt, signature }: AgentKeyRequestBody = req.body;
+
+  if (!walletAddress || spendCap === undefined || !expiresAt || !nonce || !issuedAt || !signature) {
+    return res.status(400).json({
+      error: "Incomplete request (walletAddress, spendCap, expiresAt, nonce, issuedAt, signature required)"
+    });
+  }
+
+  if (!validateSolanaAddress(walletAddress)) {
+    return res.status(400).json({ error: "Invalid walletAddress" });
+  }
+
+  if (label !== undefined && (typeof label !== 'string' || label.length > 100)) {
+    return res.status(400).json({ error: "Label must be a string of at most 100 characters" });
+  }
+
+  if (typeof spendCap !== 'number' || !Number.isFinite(spendCap) || spendCap <= 0) {
+    return res.status(400).json({ error: "spendCap must be a positive number" });
+  }
+
+  if (maxArticlePrice !== undefined && (typeof maxArticlePrice !== 'number' || !Number.isFinite(maxArticlePrice) || maxArticlePrice <= 0)) {
+    return res.status(400).json({ error: "maxArticlePrice must be a positive number" });
+  }
+
+  if (allowedTags !== undefined && (!Array.isArray(allowedTags) || allowedTags.some(tag => typeof tag !== 'string'))) {
+    return res.status(400).json({ error: "allowedTags must be an array of strings" });
+  }
+
+  const expiresAtMs = Date.parse(expiresAt);
+  if (typeof expiresAt !== 'string' || Number.isNaN(expiresAtMs) || expiresAtMs <= Date.now()) {
+    return res.status(400).json({ error: "expiresAt must be a future ISO 8601 date" });
+  }
+
+  // The signed message covers the limits exactly as the client sent them
+  const rejection = await checkSignedRequest({
+    scope: 'agent-key',
+    walletAddress,
+    message: buildAgentKeyMessage({ walletAddress, label, spendCap, maxArticlePrice, allowedTags, expiresAt, nonce, issuedAt }),
+    signature,
+    nonce,
+    issuedAt
+  });
+  if (rejection) {
+    return res.status(rejection.status).json({ error: rejection.error, code: rejection.code });
+  }
+
+  const tags = allowedTags ? normalizeTags(allowedTags) : [];
+  const { key, keyHash } = generateAgentKey();
+  const id = `agentkey-${uuidv4()}`;
+
+  await storage.createAgentKey({
+    id,
+    key_hash: keyHash,
+    wallet_address: walletAddress,
+    label,
+    spend_cap: spendCap,
+    max_article_price: maxArticlePrice,
+    allowed_tags: tags.length > 0 ? tags : undefined,
+    expires_at: Math.floor(expiresAtMs / 1000)
+  });
+
+  const agentKey = (await storage.getAgentKeyByHash(keyHash))!;
+  budgetLogger.info({ payer: walletAddress, agentKeyId: id, spendCap }, "Agent key created");
+
+  // The key itself is only ever returned here
+  res.status(201).json({ ...describeAgentKey(agentKey), key });
+}));
+
+app.get("/api/agent-keys", budgetRateLimit, requireSession, asyncHandler(async (req: SessionRequest, res: Response) => {
+  const agentKeys = await storage.getAgentKeysByWallet(req.x402_session_wallet!);
+  res.json({ agentKeys: agentKeys.map(describeAgentKey) });
+}));
+
+app.delete("/api/agent-keys/:id", budgetRateLimit, requireSession, asyncHandler(async (req: SessionRequest, res: Response) => {
+  const revoked = await storage.revokeAgentKey(req.params.id, req.x402_session_wallet!);
+
+  if (!revoked) {
+    return res.status(404).json({ error: "Agent key not found or already revoked" });
+  }
+
+  budgetLogger.info({ payer: req.x402_session_wallet, agentKeyId: req.params.id }, "Agent key revoked");
+  res.json({ success: true, id: req.params.id });
+}));
+
+// Webhooks: signed notifications about the signed-in wallet's budget
+const MAX_WEBHOOKS_PER_WALLET = 10;
+
+app.post("/api/webhooks", budgetRateLimit, requireSession, asyncHandler(async (req: SessionRequest, res: Response) => {
+  const { url, events, lowBalanceThreshold }: WebhookRequestBody = req.body ?? {};
+
+  if (typeof url !== 'string' || !isValidWebhookUrl(url)) {
+    return res.status(400).json({ error: "url must be an https URL without credentials" });
+  }
+
+  const hostRejection = await checkWebhookHost(url);
+  if (hostRejection) {
+    return res.status(400).json({ error: hostRejection });
+  }
+
+  if (!Array.isArray(events) || events.length === 0 || events.some(event => !(WEBHOOK_EVENT_TYPES as string[]).includes(event))) {
+    return res.status(400).json({ error: `events must be a non-empty list of: ${WEBHOOK_EVENT_TYPES.join(', ')}` });
+  }
+
+  if (lowBalanceThreshold !== undefined && (typeof lowBalanceThreshold !== 'number' || !Number.isFinite(lowBalanceThreshold) || lowBalanceThreshold <= 0)) {
+    return res.status(400).json({ error: "lowBalanceThreshold must be a positive number" });
+  }
+
+  const walletAddress = req.x402_session_wallet!;
+  const existing = await storage.getWebhooksByWallet(walletAddress);
+  if (existing.length >= MAX_WEBHOOKS_PER_WALLET) {
+    return res.status(400).json({ error: `A wallet can have at most ${MAX_WEBHOOKS_PER_WALLET} webhooks` });
+  }
+
+  const id = `webhook-${uuidv4()}`;
+  const secret = generateWebhookSecret();
+  await storage.createWebhook({
+    id,
+    wallet_address: walletAddress,
+    url,
+    secret,
+    events: Array.from(new Set(events)) as WebhookEventType[],
+    low_balance_threshold: lowBalanceThreshold
+  });
+
+  const webhook = (await storage.getWebhook(id))!;
+  budgetLogger.info({ payer: walletAddress, webhookId: id, events: webhook.events }, "Webhook created");
+
+  // The secret is only ever returned here
+  res.status(201).json({ ...describeWebhook(webhook), secret });
+}));
+
+app.get("/api/webhooks", budgetRateLimit, requireSession, asyncHandler(async (req: SessionRequest, res: Response) => {
+  const webhooks = await storage.getWebhooksByWallet(req.x402_session_wallet!);
+  res.json({ webhooks: webhooks.map(describeWebhook) });
+}));
+
+app.get("/api/webhooks/:id/deliveries", budgetRateLimit, requireSession, asyncHandler(async (req: SessionRequest, res: Response) => {
+  const webhook = await storage.getWebhook(req.params.id);
+  if (!webhook || webhook.wallet_address !== req.x402_session_wallet) {
+    return res.status(404).json({ error: "Webhook not found" });
+  }
+
+  const limit = Math.min(Math.max(Number(req.query.limit) || 20, 1), 100);
+  const deliveries = await storage.getWebhookDeliveries(webhook.id, limit);
+
+  res.json({
+    deliveries: await Promise.all(deliveries.map(async (delivery) => ({
+      id: delivery.id,
+      eventId: delivery.event_id,
+      eventType: delivery.event_type,
+      status: delivery.status,
+      attempts: (await storage.getWebhookDeliveryAttempts(delivery.id)).map(attempt => ({
+        attempt: attempt.attempt,
+        statusCode: attempt.status_code ?? null,
+        error: attempt.error ?? null,
+        durationMs: attempt.duration_ms,
+        attemptedAt: new Date(attempt.created_at * 1000).toISOString()
+      })),
+      nextAttemptAt: delivery.status === 'pending' ? new Date(delivery.next_attempt_at * 1000).toISOString() : null,
+      createdAt: new Date(delivery.created_at * 1000).toISOString()
+    })))
+  });
+}));
+
+app.delete("/api/webhooks/:id", budgetRateLimit, requireSession, asyncHandler(async (req: SessionRequest, res: Response) => {
+  const deleted = await storage.deleteWebhook(req.params.id, req.x402_session_wallet!);
+
+  if (!deleted) {
+    return res.status(404).json({ error: "Webhook not found" });
+  }
+
+  budgetLogger.info({ payer: req.x402_session_wallet, webhookId: req.params.id }, "Webhook deleted");
+  res.json({ success: true, id: req.params.id });
+}));
+
+// Spending limits the signed-in reader sets on their own budget
+app.get("/api/budget/limits", budgetRateLimit, requireSession, asyncHandler(async (req: SessionRequest, res: Response) => {
+  const walletAddress = req.x402_session_wallet!;
+  const limits = await storage.getSpendingLimits(walletAddress);
+  res.json(describeSpendingLimits(walletAddress, limits));
+}));
+
+app.put("/api/budget/limits", budgetRateLimit, requireSession, asyncHandler(async (req: SessionRequest, res: Response) => {
+  const { dailyLimit, monthlyLimit, maxArticlePrice }: SpendingLimitsRequestBody = req.body ?? {};
+
+  for (const [field, value] of Object.entries({ dailyLimit, monthlyLimit, maxArticlePrice })) {
+    if (value !== undefined && value !== null && (typeof value !== 'number' || !Number.isFinite(value) || value <= 0)) {
+      return res.status(400).json({ error: `${field} must be a positive number or null` });
+    }
+  }
+
+  const walletAddress = req.x402_session_wallet!;
+  const limits = await storage.setSpendingLimits(walletAddress, {
+    daily_limit: dailyLimit ?? undefined,
+    monthly_limit: monthlyLimit ?? undefined,
+    max_article_price: maxArticlePrice ?? undefined
+  });
+
+  res.json(describeSpendingLimits(walletAddress, limits));
+}));
+
 app.get("/api/budget/:pubkey", budgetRateLimit, asyncHandler(async (req: Request, res: Response) => {
   const { pubkey } = req.params;
-  const currentBudget = await storage.getBudget(pubkey);
+  const budgetBalances = await storage.getAllBudgetBalances(pubkey);
+
+  // Report each accepted token separately; the total is valued in the pricing currency
+  const balances = await Promise.all(CONFIG.acceptedTokens.map(async (token) => {
+    const mint = await mintRegistry.get(token.mint);
+    const smallestUnit = budgetBalances
+      .filter(balance => balance.token_mint_address === token.mint)
+      .reduce((sum, balance) => sum + Number(balance.amount), 0);
+    const amount = smallestUnit / Math.pow(10, mint.decimals);
 
-  const mintAccount = await fetchMint(rpc, address(CONFIG.splToken));
-  const budgetInTokens = Number(currentBudget) / Math.pow(10, mintAccount.data.decimals);
+    return {
+      token: token.mint,
+      symbol: token.symbol,
+      amount,
+      value: amount * token.price
+    };
+  }));
 
   res.json({
     pubkey,
-    currentBudget: budgetInTokens,
-    currency: "USDC"
+    currentBudget: balances.reduce((sum, balance) => sum + balance.value, 0),
+    currency: pricing.CURRENCY_NAME,
+    balances
   });
 }));
 
@@ -297,6 +685,7 @@ app.get("/api/budget/:pubkey/balances", budgetRateLimit, asyncHandler(async (req
       walletAddress: balance.wallet_address,
       solanaCluster: balance.solana_cluster,
       amount: normalizedAmount,
+      reservedAmount: Number(balance.reserved_amount) / Math.pow(10, balance.decimal),
       decimal: balance.decimal,
       tokenSymbol: balance.token_symbol,
       tokenMintAddress: balance.token_mint_address,
@@ -312,8 +701,36 @@ app.get("/api/budget/:pubkey/balances", budgetRateLimit, asyncHandler(async (req
   });
 }));
 
-app.post("/api/budget/deposit/confirm", paymentRateLimit, asyncHandler(async (req: Request, res: Response) => {
-  const { signature, reference, payerPubkey, amount }: DepositRequestBody = req.body;
+// A wallet's purchases are only listed to the wallet itself
+app.get("/api/entitlements/:pubkey", budgetRateLimit, requireSession, asyncHandler(async (req: SessionRequest, res: Response) => {
+  const { pubkey } = req.params;
+  if (pubkey !== req.x402_session_wallet) {
+    return res.status(403).json({ error: "Session is for another wallet", code: 'SESSION_MISMATCH' });
+  }
+
+  const entitlements = await storage.getEntitlementsByWallet(pubkey);
+
+  const ownedArticles = await Promise.all(entitlements.map(async (entitlement) => {
+    const article = await articleService.getArticleMetadata(entitlement.article_id);
+
+    return {
+      articleId: entitlement.article_id,
+      title: article?.title || null,
+      signatureId: entitlement.signature_id,
+      grantedAt: new Date(entitlement.created_at * 1000).toISOString()
+    };
+  }));
+
+  res.json({
+    walletAddress: pubkey,
+    entitlements: ownedArticles,
+    total: ownedArticles.length,
+    timestamp: new Date().toISOString()
+  });
+}));
+
+app.post("/api/budget/deposit/confirm", paymentRateLimit, createIdempotencyMiddleware('deposit-confirm', req => req.body?.payerPubkey, { releasePending: true }), asyncHandler(async (req: Request, res: Response) => {
+  const { signature, reference, payerPubkey, amount, tokenMint }: DepositRequestBody = req.body;
 
   if (!signature || !reference || !payerPubkey || !amount) {
     return res.status(400).json({
@@ -330,24 +747,61 @@ app.post("/api/budget/deposit/confirm", paymentRateLimit, asyncHandler(async (re
     return res.status(400).json({ error: amountValidation.error });
   }
 
+  // Deposits are credited in whichever accepted token was sent, at face value
+  const depositTokens = CONFIG.acceptedTokens
+    .filter(token => !tokenMint || token.mint === tokenMint)
+    .map(token => ({ ...token, price: 1 }));
+
+  if (depositTokens.length === 0) {
+    return res.status(400).json({ error: `Token ${tokenMint} is not accepted for deposits` });
+  }
+
+  // A deposit queued for confirmation is credited by the confirmation worker
+  const confirmation = await storage.getPaymentConfirmation(reference);
+  if (confirmation) {
+    if (confirmation.kind !== 'deposit' || confirmation.signature_id !== signature) {
+      return res.status(401).json({ error: "This reference belongs to another payment" });
+    }
+    if (confirmation.status === 'pending') {
+      return res.status(202).json(describePaymentConfirmation(confirmation));
+    }
+    if (confirmation.status !== 'confirmed') {
+      return res.status(401).json({
+        error: `Budget deposit verification failed: ${confirmation.error || `Payment ${confirmation.status}`}`,
+        code: confirmation.error_code
+      });
+    }
+
+    const { payer, ...deposit } = confirmation.result!;
+    return res.json({ success: true, ...deposit });
+  }
+
   const refKey = `ref_${reference}`;
-  if (await storage.hasReference(refKey)) {
+  if (await storage.hasReference(refKey) || await storage.isSignatureUsed(signature)) {
     return res.status(401).json({ error: "This budget deposit has already been claimed" });
   }
 
+  const rpcClient = getRpcClient();
+  const requirements = await getPaymentRequirements(amount, depositTokens, rpcClient);
   const verification = await verifyTransaction(
     signature,
     reference,
-    amount,
-    CONFIG.splToken,
-    CONFIG.recipientWallet!
+    requirements,
+    CONFIG.recipientWallet!,
+    payerPubkey,
+    rpcClient
   );
 
-  const MINT_ADDRESS = address(CONFIG.splToken);
-  const mintAccount = await fetchMint(rpc, MINT_ADDRESS);
-  const claimedAmountSmallestUnit = BigInt(Math.floor(amount * Math.pow(10, mintAccount.data.decimals)));
+  const paidRequirement = requirements.find(requirement => requirement.token === verification.tokenMint) || requirements[0];
+  const mint = await mintRegistry.get(paidRequirement.token, rpcClient);
+  const claimedAmountSmallestUnit = paidRequirement.amountSmallestUnit;
 
   if (verification.success && verification.amountReceivedSmallestUnit === claimedAmountSmallestUnit) {
+    // Claim the reference before crediting so a concurrent replay cannot credit twice
+    if (!await storage.addReference(refKey, { ex: 3600, signature })) {
+      return res.status(401).json({ error: "This budget deposit has already been claimed" });
+    }
+
     try {
       // Use new SQLite functionality for top-up processing
       // Generate new memo format: TOPUP-UUIDv3
@@ -359,87 +813,288 @@ app.post("/api/budget/deposit/confirm", paymentRateLimit, asyncHandler(async (re
         to: CONFIG.recipientWallet!,
         solanaCluster: process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet',
         amount: Number(verification.amountReceivedSmallestUnit),
-        decimal: mintAccount.data.decimals,
-        tokenSymbol: 'USDC',
-        tokenMintAddress: CONFIG.splToken,
+        decimal: mint.decimals,
+        tokenSymbol: paidRequirement.symbol,
+        tokenMintAddress: paidRequirement.token,
         memoValue: newMemoValue
       });
 
-      // Add reference to prevent replay attacks
-      await storage.addReference(refKey, { ex: 3600 });
-
-      // Get updated budget
-      const currentBudget = await storage.getBudget(payerPubkey);
-      const newBudget = BigInt(currentBudget);
+      // Get updated budget in the deposited token
+      const balance = await storage.getBudgetBalance(
+        payerPubkey,
+        process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet',
+        paidRequirement.token
+      );
+      const newBudget = BigInt(balance ? balance.amount : 0);
 
       budgetLogger.info({
         payer: payerPubkey,
         depositAmount: amount,
+        token: paidRequirement.token,
         totalBudget: newBudget.toString()
       }, "Budget deposit successful via SQLite");
 
       res.json({
         success: true,
-        newBudget: Number(newBudget) / Math.pow(10, mintAccount.data.decimals),
-        depositAmount: amount
+        newBudget: Number(newBudget) / Math.pow(10, mint.decimals),
+        depositAmount: amount,
+        token: paidRequirement.token,
+        symbol: paidRequirement.symbol
       });
     } catch (sqliteError: any) {
-      budgetLogger.warn({
+      budgetLogger.error({
         error: sqliteError.message,
         payer: payerPubkey,
         amount
-      }, "SQLite top-up processing failed, falling back to legacy method");
-
-      // Fallback to legacy method
-      const currentBudget = BigInt(await storage.getBudget(payerPubkey));
-      const depositAmount = verification.amountReceivedSmallestUnit!;
-      const newBudget = currentBudget + depositAmount;
+      }, "SQLite top-up processing failed");
 
-      await storage.setBudget(payerPubkey, newBudget.toString());
-      await storage.addReference(refKey, { ex: 3600 });
+      // Nothing was credited, so let the client retry with the same deposit
+      await storage.delReference(refKey);
 
-      res.json({
-        success: true,
-        newBudget: Number(newBudget) / Math.pow(10, mintAccount.data.decimals),
-        depositAmount: amount
-      });
+      res.status(500).json({ error: "Failed to record budget deposit, please retry" });
     }
+  } else if (verification.code === 'TRANSACTION_NOT_FOUND') {
+    // Not on chain yet: credit it once finalized rather than reject it
+    const queued = await queuePaymentConfirmation({
+      reference,
+      signature,
+      kind: 'deposit',
+      payer: payerPubkey,
+      recipientWallet: CONFIG.recipientWallet!,
+      amount,
+      requirements
+    });
+    res.status(202).json(describePaymentConfirmation(queued));
   } else {
     let errorMsg = verification.error || "Unknown verification error";
+    let code = verification.code || 'VERIFICATION_FAILED';
     // Only check amount mismatch if verification succeeded but had wrong amount
     if (verification.success && typeof verification.amountReceivedSmallestUnit !== 'undefined') {
       if (verification.amountReceivedSmallestUnit !== claimedAmountSmallestUnit) {
         errorMsg = `Deposit amount mismatch. Received: ${verification.amountReceivedSmallestUnit}, Claimed: ${claimedAmountSmallestUnit}`;
+        code = 'AMOUNT_MISMATCH';
       }
     } else if (!verification.success) {
       // If verification failed completely, use the error message from verification
       errorMsg = verification.error || "Transaction verification failed";
     }
-    res.status(401).json({ error: `Budget deposit verification failed: ${errorMsg}` });
+    res.status(401).json({ error: `Budget deposit verification failed: ${errorMsg}`, code });
+  }
+}));
+
+const MAX_PAYMENT_WAIT_SECONDS = 30;
+
+app.get("/api/payments/:reference", budgetRateLimit, asyncHandler(async (req: Request, res: Response) => {
+  const { reference } = req.params;
+  if (!validateReference(reference)) {
+    return res.status(400).json({ error: "Invalid reference format (must be UUID)" });
+  }
+
+  // Long-poll: hold the request until a pending payment settles or `wait` seconds pass
+  const wait = req.query.wait === undefined ? 0 : Number(req.query.wait);
+  if (!Number.isInteger(wait) || wait < 0 || wait > MAX_PAYMENT_WAIT_SECONDS) {
+    return res.status(400).json({ error: `wait must be a whole number of seconds from 0 to ${MAX_PAYMENT_WAIT_SECONDS}` });
+  }
+
+  const confirmation = await paymentConfirmationWorker.waitForSettled(reference, wait * 1000);
+  if (!confirmation) {
+    return res.status(404).json({ error: "No payment is awaiting confirmation for this reference" });
+  }
+
+  res.json(describePaymentConfirmation(confirmation));
+}));
+
+app.post("/api/budget/withdraw", paymentRateLimit, createIdempotencyMiddleware('budget-withdraw', req => req.body?.payerPubkey), asyncHandler(async (req: Request, res: Response) => {
+  const { payerPubkey, amount, tokenMint, nonce, issuedAt, signature }: WithdrawalRequestBody = req.body;
+
+  if (!payerPubkey || !amount || !nonce || !issuedAt || !signature) {
+    return res.status(400).json({
+      error: "Incomplete request (payerPubkey, amount, nonce, issuedAt, signature required)"
+    });
+  }
+
+  if (!CONFIG.recipientWallet) {
+    return res.status(500).json({ error: "Recipient wallet not configured" });
+  }
+
+  if (!validateSolanaAddress(payerPubkey)) {
+    return res.status(400).json({ error: "Invalid payerPubkey" });
+  }
+
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0) {
+    return res.status(400).json({ error: "Amount must be a positive number" });
+  }
+
+  const token = CONFIG.acceptedTokens.find(accepted => accepted.mint === (tokenMint || CONFIG.splToken));
+  if (!token) {
+    return res.status(400).json({ error: `Token ${tokenMint} is not accepted for withdrawals` });
+  }
+
+  const rejection = await checkSignedRequest({
+    scope: 'withdrawal',
+    walletAddress: payerPubkey,
+    message: buildWithdrawalMessage({ walletAddress: payerPubkey, amount, tokenMint: token.mint, nonce, issuedAt }),
+    signature,
+    nonce,
+    issuedAt
+  });
+  if (rejection) {
+    return res.status(rejection.status).json({ error: rejection.error, code: rejection.code });
+  }
+
+  const solanaCluster = process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet';
+  const [requirement] = await getPaymentRequirements(amount, [{ ...token, price: 1 }]);
+  const withdrawalId = `withdrawal-${uuidv4()}`;
+
+  const reserved = await storage.requestWithdrawal({
+    withdrawalId,
+    walletAddress: payerPubkey,
+    payoutWallet: CONFIG.recipientWallet,
+    solanaCluster,
+    amount: Number(requirement.amountSmallestUnit),
+    decimal: requirement.decimals,
+    tokenSymbol: requirement.symbol,
+    tokenMintAddress: requirement.token
+  });
+
+  if (!reserved) {
+    return res.status(400).json({ error: "Insufficient budget for this withdrawal", code: 'INSUFFICIENT_BUDGET' });
   }
+
+  const withdrawal = await storage.getTransfer(withdrawalId);
+  budgetLogger.info({
+    payer: payerPubkey,
+    withdrawalId,
+    amount,
+    token: requirement.token
+  }, "Budget withdrawal requested");
+
+  // Paid out in the background; the client follows it in /api/transfers
+  payoutProcessor.submit(withdrawal);
+
+  res.status(202).json({
+    success: true,
+    withdrawalId,
+    status: 'pending',
+    amount: requirement.amount,
+    token: requirement.token,
+    symbol: requirement.symbol
+  });
 }));
 
 app.get("/api/pricing", (req: Request, res: Response) => {
   res.json({
     pricing: getPricingInfo(),
+    acceptedTokens: CONFIG.acceptedTokens,
     timestamp: new Date().toISOString()
   });
 });
 
+/**
+ * Opaque /api/transfers cursor: base64url of [created_at, signature_id]
+ */
+function encodeTransferCursor(cursor: TransferCursor): string {
+  return Buffer.from(JSON.stringify([cursor.created_at, cursor.signature_id])).toString('base64url');
+}
+
+function decodeTransferCursor(value: string): TransferCursor | null {
+  try {
+    const [createdAt, signatureId] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (!Number.isInteger(createdAt) || typeof signatureId !== 'string') {
+      return null;
+    }
+    return { created_at: createdAt, signature_id: signatureId };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A date query parameter (ISO 8601) as unix seconds, or null if invalid
+ */
+function parseDateParam(value: unknown): number | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const ms = Date.parse(value);
+  return Number.isNaN(ms) ? null : Math.floor(ms / 1000);
+}
+
 // API endpoints for User Cockpit
 app.get("/api/transfers", articleRateLimit, asyncHandler(async (req: Request, res: Response) => {
   try {
-    const { wallet, limit = 50, offset = 0 } = req.query;
+    const { wallet, limit = '50', cursor, type, mint, cluster, from, to } = req.query;
 
     if (!wallet || typeof wallet !== 'string') {
       return res.status(400).json({ error: "Wallet address required" });
     }
 
-    const transfers = await storage.getTransfersByWallet(wallet, Number(limit));
+    if (req.query.offset !== undefined) {
+      return res.status(400).json({ error: "offset is not supported, page with the nextCursor of the previous response" });
+    }
+
+    const pageSize = Number(limit);
+    if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > 100) {
+      return res.status(400).json({ error: "limit must be an integer from 1 to 100" });
+    }
+
+    const filter: TransferFilter = { walletAddress: wallet };
+
+    if (type !== undefined) {
+      const types = typeof type === 'string' ? type.split(',').map(value => value.trim()) : [];
+      if (types.length === 0 || types.some(value => !(TRANSFER_TYPES as string[]).includes(value))) {
+        return res.status(400).json({ error: `type must be a comma-separated list of: ${TRANSFER_TYPES.join(', ')}` });
+      }
+      filter.typeTx = types as TransferType[];
+    }
+
+    if (mint !== undefined) {
+      if (typeof mint !== 'string' || !validateSolanaAddress(mint)) {
+        return res.status(400).json({ error: "Invalid mint" });
+      }
+      filter.tokenMintAddress = mint;
+    }
+
+    if (cluster !== undefined) {
+      if (cluster !== 'mainnet-beta' && cluster !== 'devnet') {
+        return res.status(400).json({ error: "cluster must be mainnet-beta or devnet" });
+      }
+      filter.solanaCluster = cluster;
+    }
+
+    for (const [name, value] of [['from', from], ['to', to]] as const) {
+      if (value === undefined) {
+        continue;
+      }
+      const timestamp = parseDateParam(value);
+      if (timestamp === null) {
+        return res.status(400).json({ error: `${name} must be an ISO 8601 date` });
+      }
+      if (name === 'from') {
+        filter.createdFrom = timestamp;
+      } else {
+        filter.createdTo = timestamp;
+      }
+    }
+
+    let after: TransferCursor | undefined;
+    if (cursor !== undefined) {
+      const decoded = typeof cursor === 'string' ? decodeTransferCursor(cursor) : null;
+      if (!decoded) {
+        return res.status(400).json({ error: "Invalid cursor" });
+      }
+      after = decoded;
+    }
+
+    const [page, total] = await Promise.all([
+      storage.queryTransfers(filter, pageSize, after),
+      storage.countTransfers(filter)
+    ]);
 
     res.json({
-      transfers,
-      total: transfers.length,
+      transfers: page.transfers,
+      total,
+      nextCursor: page.nextCursor ? encodeTransferCursor(page.nextCursor) : null,
       wallet,
       timestamp: new Date().toISOString()
     });
@@ -454,40 +1109,194 @@ app.get("/api/creator/stats", articleRateLimit, asyncHandler(async (req: Request
       return res.status(500).json({ error: "Creator wallet not configured" });
     }
 
-    // Get creator transfers
-    const creatorTransfers = await storage.getTransfersByWallet(CONFIG.recipientWallet, 100);
+    const { wallet } = req.query;
+    if (wallet !== undefined) {
+      if (typeof wallet !== 'string' || !validateSolanaAddress(wallet)) {
+        return res.status(400).json({ error: "Invalid wallet address" });
+      }
+
+      // One payee's earnings are their creator_revenue accounts, net of refunds
+      const [accounts, recentPostings, allArticles] = await Promise.all([
+        storage.getLedgerAccountBalances('creator_revenue', wallet),
+        storage.getAccountPostings('creator_revenue', wallet, 10),
+        articleService.scanArticles()
+      ]);
+
+      // Articles without payees are paid to the recipient wallet
+      const payeeArticles = allArticles.filter(article => article.payees.length > 0
+        ? article.payees.some(payee => payee.wallet === wallet)
+        : wallet === CONFIG.recipientWallet);
+
+      let totalEarnings = 0;
+      const earningsByToken = accounts.map(account => {
+        const amount = getAccountBalance(account);
+        totalEarnings += amount / Math.pow(10, account.decimal);
+        return {
+          tokenSymbol: account.token_symbol,
+          tokenMintAddress: account.token_mint_address,
+          cluster: account.solana_cluster,
+          amount,
+          decimal: account.decimal,
+          count: account.postings
+        };
+      });
+
+      return res.json({
+        creatorWallet: wallet,
+        totalArticles: payeeArticles.length,
+        totalTransfers: accounts.reduce((total, account) => total + account.postings, 0),
+        totalEarnings,
+        earningsByToken,
+        recentTransfers: recentPostings,
+        timestamp: new Date().toISOString()
+      });
+    }
 
-    // Get all articles
-    const articles = await articleService.getArticlesList();
+    // Totals over all of the creator's transfers, summed in SQL; budget
+    // withdrawals are paid from the creator wallet, not earned by it
+    const [earningTotals, totalTransfers, recent, articles] = await Promise.all([
+      storage.getTransferTotals({ walletAddress: CONFIG.recipientWallet, excludeTypeTx: ['withdrawal'] }),
+      storage.countTransfers({ walletAddress: CONFIG.recipientWallet }),
+      storage.queryTransfers({ walletAddress: CONFIG.recipientWallet }, 10),
+      articleService.getArticlesList()
+    ]);
 
     // Calculate earnings by token type
     const earningsByToken: any = {};
     let totalEarnings = 0;
 
-    creatorTransfers.forEach((transfer: any) => {
-      const key = `${transfer.token_symbol}-${transfer.solana_cluster}`;
+    earningTotals.forEach((total) => {
+      const key = `${total.token_symbol}-${total.solana_cluster}`;
       if (!earningsByToken[key]) {
         earningsByToken[key] = {
-          tokenSymbol: transfer.token_symbol,
-          tokenMintAddress: transfer.token_mint_address,
-          cluster: transfer.solana_cluster,
+          tokenSymbol: total.token_symbol,
+          tokenMintAddress: total.token_mint_address,
+          cluster: total.solana_cluster,
           amount: 0,
-          decimal: transfer.decimal,
+          decimal: total.decimal,
           count: 0
         };
       }
-      earningsByToken[key].amount += transfer.amount;
-      earningsByToken[key].count += 1;
-      totalEarnings += transfer.amount / Math.pow(10, transfer.decimal);
+      earningsByToken[key].amount += total.amount;
+      earningsByToken[key].count += total.count;
+      totalEarnings += total.amount / Math.pow(10, total.decimal);
     });
 
     res.json({
       creatorWallet: CONFIG.recipientWallet,
       totalArticles: articles.length,
-      totalTransfers: creatorTransfers.length,
+      totalTransfers,
       totalEarnings,
       earningsByToken: Object.values(earningsByToken),
-      recentTransfers: creatorTransfers.slice(0, 10),
+      recentTransfers: recent.transfers,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: `Failed to fetch creator stats: ${error.message}` });
+  }
+}));
+
+app.get("/api/creators", articleRateLimit, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const authors = await authorRegistry.list();
+
+    res.json({
+      creators: authors.map(describeAuthor),
+      total: authors.length,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: `Failed to fetch creators: ${error.message}` });
+  }
+}));
+
+app.get("/api/creators/:authorId/stats", articleRateLimit, asyncHandler(async (req: Request, res: Response) => {
+  try {
+    const author = await authorRegistry.get(req.params.authorId);
+    if (!author) {
+      return res.status(404).json({ error: "Author not found" });
+    }
+
+    // The author's articles, and the ones they are a payee of
+    const allArticles = await articleService.scanArticles();
+    const authorArticles = allArticles.filter(article =>
+      article.authorId === author.id || article.payees.some(payee => payee.wallet === author.wallet)
+    );
+
+    // Sales per article from transfers.type_tx_nodes, and the author's share
+    // of them from the ledger, net of refunds
+    const [salesTotals, earningTotals] = await Promise.all([
+      storage.getArticleTransferTotals({
+        articleIds: authorArticles.map(article => article.id),
+        typeTx: ['article', 'article-one-time', 'refund']
+      }),
+      storage.getAccountTotalsByArticle('creator_revenue', author.wallet)
+    ]);
+
+    const addToToken = (byToken: Map<string, TokenAmount>, total: { token_symbol: string; token_mint_address: string; solana_cluster: string; decimal: number }, amount: number) => {
+      const key = `${total.token_symbol}-${total.solana_cluster}`;
+      if (!byToken.has(key)) {
+        byToken.set(key, {
+          tokenSymbol: total.token_symbol,
+          tokenMintAddress: total.token_mint_address,
+          cluster: total.solana_cluster,
+          amount: 0,
+          decimal: total.decimal
+        });
+      }
+      byToken.get(key)!.amount += amount;
+    };
+
+    const articleStats = new Map<string, { sales: number; refunds: number; revenue: Map<string, TokenAmount>; earnings: Map<string, TokenAmount> }>();
+    const getArticleStats = (articleId: string) => {
+      if (!articleStats.has(articleId)) {
+        articleStats.set(articleId, { sales: 0, refunds: 0, revenue: new Map(), earnings: new Map() });
+      }
+      return articleStats.get(articleId)!;
+    };
+    authorArticles.forEach(article => getArticleStats(article.id));
+
+    salesTotals.forEach((total) => {
+      const stats = getArticleStats(total.article_id);
+      if (total.type_tx === 'refund') {
+        stats.refunds += total.count;
+        addToToken(stats.revenue, total, -total.amount);
+      } else {
+        stats.sales += total.count;
+        addToToken(stats.revenue, total, total.amount);
+      }
+    });
+
+    const earningsByToken = new Map<string, TokenAmount>();
+    let totalEarnings = 0;
+    earningTotals.forEach((total) => {
+      const amount = total.credits - total.debits;
+      addToToken(getArticleStats(total.article_id).earnings, total, amount);
+      addToToken(earningsByToken, total, amount);
+      totalEarnings += amount / Math.pow(10, total.decimal);
+    });
+
+    const articles = Array.from(articleStats, ([articleId, stats]) => {
+      const article = allArticles.find(candidate => candidate.id === articleId);
+      return {
+        articleId,
+        title: article?.title ?? null,
+        date: article?.date ?? null,
+        sales: stats.sales,
+        refunds: stats.refunds,
+        revenueByToken: Array.from(stats.revenue.values()),
+        earningsByToken: Array.from(stats.earnings.values())
+      };
+    });
+
+    res.json({
+      creator: describeAuthor(author),
+      totalArticles: authorArticles.length,
+      totalSales: articles.reduce((total, article) => total + article.sales, 0),
+      totalRefunds: articles.reduce((total, article) => total + article.refunds, 0),
+      totalEarnings,
+      earningsByToken: Array.from(earningsByToken.values()),
+      articles,
       timestamp: new Date().toISOString()
     });
   } catch (error: any) {
@@ -503,45 +1312,47 @@ app.get("/api/user/stats", articleRateLimit, asyncHandler(async (req: Request, r
       return res.status(400).json({ error: "Wallet address required" });
     }
 
-    // Get user transfers
-    const userTransfers = await storage.getTransfersByWallet(wallet, 100);
-
-    // Get current budget
-    const currentBudget = await storage.getBudget(wallet);
+    // Totals over all of the user's transfers, summed in SQL
+    const [spendingTotals, totalTransfers, recent, currentBudget] = await Promise.all([
+      storage.getTransferTotals({ walletAddress: wallet, typeTx: ['top-up', 'article', 'article-one-time'] }),
+      storage.countTransfers({ walletAddress: wallet }),
+      storage.queryTransfers({ walletAddress: wallet }, 10),
+      storage.getBudget(wallet)
+    ]);
 
     // Calculate spending by token type
     const spendingByToken: any = {};
     let totalSpent = 0;
     let totalTopUp = 0;
 
-    userTransfers.forEach((transfer: any) => {
+    spendingTotals.forEach((total) => {
       // Group only by token symbol, ignoring cluster to consolidate spending
-      const normalizedTokenSymbol = transfer.token_symbol?.trim().toUpperCase();
+      const normalizedTokenSymbol = total.token_symbol?.trim().toUpperCase();
       if (!spendingByToken[normalizedTokenSymbol]) {
         spendingByToken[normalizedTokenSymbol] = {
           tokenSymbol: normalizedTokenSymbol,
-          tokenMintAddress: transfer.token_mint_address,
-          cluster: transfer.solana_cluster, // Keep cluster info for display
+          tokenMintAddress: total.token_mint_address,
+          cluster: total.solana_cluster, // Keep cluster info for display
           spent: 0,
           topUp: 0,
-          decimal: transfer.decimal,
+          decimal: total.decimal,
           articlePayments: 0,
           oneTimePayments: 0
         };
       }
 
-      const normalizedAmount = transfer.amount / Math.pow(10, transfer.decimal);
+      const normalizedAmount = total.amount / Math.pow(10, total.decimal);
 
-      if (transfer.type_tx === 'top-up') {
+      if (total.type_tx === 'top-up') {
         spendingByToken[normalizedTokenSymbol].topUp += normalizedAmount;
         totalTopUp += normalizedAmount;
-      } else if (transfer.type_tx === 'article') {
+      } else if (total.type_tx === 'article') {
         spendingByToken[normalizedTokenSymbol].spent += normalizedAmount;
-        spendingByToken[normalizedTokenSymbol].articlePayments += 1;
+        spendingByToken[normalizedTokenSymbol].articlePayments += total.count;
         totalSpent += normalizedAmount;
-      } else if (transfer.type_tx === 'article-one-time') {
+      } else if (total.type_tx === 'article-one-time') {
         spendingByToken[normalizedTokenSymbol].spent += normalizedAmount;
-        spendingByToken[normalizedTokenSymbol].oneTimePayments += 1;
+        spendingByToken[normalizedTokenSymbol].oneTimePayments += total.count;
         totalSpent += normalizedAmount;
       }
     });
@@ -549,11 +1360,11 @@ app.get("/api/user/stats", articleRateLimit, asyncHandler(async (req: Request, r
     res.json({
       userWallet: wallet,
       currentBudget,
-      totalTransfers: userTransfers.length,
+      totalTransfers,
       totalSpent,
       totalTopUp,
       spendingByToken: Object.values(spendingByToken),
-      recentTransfers: userTransfers.slice(0, 10),
+      recentTransfers: recent.transfers,
       timestamp: new Date().toISOString()
     });
   } catch (error: any) {
@@ -561,16 +1372,88 @@ app.get("/api/user/stats", articleRateLimit, asyncHandler(async (req: Request, r
   }
 }));
 
+/**
+ * Require ADMIN_API_KEY in the X-Admin-Key header; admin routes are
+ * disabled while no key is configured
+ */
+const requireAdmin = (req: Request, res: Response, next: express.NextFunction) => {
+  if (!appConfig.adminApiKey) {
+    return res.status(503).json({ error: "Admin API is not configured" });
+  }
+
+  const adminKeyHeader = req.headers["x-admin-key"];
+  const adminKey = Array.isArray(adminKeyHeader) ? adminKeyHeader[0] : adminKeyHeader;
+  // Compare digests so the check takes the same time whatever the key's length
+  const expected = createHash('sha256').update(appConfig.adminApiKey).digest();
+  if (!adminKey || !timingSafeEqual(createHash('sha256').update(adminKey).digest(), expected)) {
+    return res.status(401).json({ error: "Admin key is missing or invalid", code: 'ADMIN_KEY_INVALID' });
+  }
+
+  next();
+};
+
+const getReconciliationOptions = () => ({
+  recipientWallet: CONFIG.recipientWallet!,
+  tokenMints: CONFIG.acceptedTokens.map(token => token.mint)
+});
+
+// Reconciliation of the transfers ledger against the recipient wallet's on-chain history
+app.post("/api/admin/reconciliation", requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+  if (!CONFIG.recipientWallet) {
+    return res.status(500).json({ error: "Recipient wallet not configured" });
+  }
+
+  const { lookbackSeconds } = req.body ?? {};
+  if (lookbackSeconds !== undefined && !(Number.isInteger(lookbackSeconds) && lookbackSeconds > 0)) {
+    return res.status(400).json({ error: "lookbackSeconds must be a positive whole number" });
+  }
+
+  const run = await reconciler.run({ ...getReconciliationOptions(), lookbackSeconds });
+  const discrepancies = await storage.getReconciliationDiscrepancies(run.id);
+  res.status(run.status === 'failed' ? 500 : 200).json({
+    run: describeReconciliationRun(run),
+    discrepancies: discrepancies.map(describeDiscrepancy)
+  });
+}));
+
+app.get("/api/admin/reconciliation", requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+    return res.status(400).json({ error: "limit must be a whole number from 1 to 100" });
+  }
+
+  const runs = await storage.getReconciliationRuns(limit);
+  res.json({ runs: runs.map(describeReconciliationRun) });
+}));
+
+app.get("/api/admin/reconciliation/:id", requireAdmin, asyncHandler(async (req: Request, res: Response) => {
+  const run = await storage.getReconciliationRun(req.params.id);
+  if (!run) {
+    return res.status(404).json({ error: "Reconciliation run not found" });
+  }
+
+  const discrepancies = await storage.getReconciliationDiscrepancies(run.id);
+  res.json({
+    run: describeReconciliationRun(run),
+    discrepancies: discrepancies.map(describeDiscrepancy)
+  });
+}));
+
 app.get("/api/health", (req: Request, res: Response) => {
+  const rpcEndpoints = getRpcClient().getEndpointHealth?.() || [];
+  const rpcHealthy = rpcEndpoints.length === 0 || rpcEndpoints.some(endpoint => endpoint.healthy);
+
   res.json({
-    status: "healthy",
+    status: rpcHealthy ? "healthy" : "degraded",
     service: "CMS x402 Backend",
     timestamp: new Date().toISOString(),
     config: {
-      network: "devnet",
+      network: appConfig.solanaNetwork,
       token: CONFIG.splToken,
+      acceptedTokens: CONFIG.acceptedTokens.map(token => token.mint),
       articlesPath: CONFIG.articlesPath
-    }
+    },
+    rpcEndpoints
   });
 });
 
@@ -584,13 +1467,52 @@ const PORT = process.env.PORT || 3001;
 
 if (require.main === module) {
   // Initialize storage before starting the server
-  storage.initialize().then(() => {
+  storage.initialize().then(async () => {
+    // Load mint decimals before serving so paid requests skip the RPC round trip
+    await mintRegistry.warmUp(CONFIG.acceptedTokens.map(token => token.mint));
+
+    // Resume payouts for withdrawals left pending by the previous run
+    payoutProcessor.processPending()
+      .then((count) => {
+        if (count > 0) {
+          logger.info({ count }, 'Resumed pending withdrawal payouts');
+        }
+      })
+      .catch((error) => logger.warn({ error: error.message }, 'Failed to resume pending withdrawal payouts'));
+
+    // Deliver budget webhooks, including retries left over from the previous run
+    webhookDispatcher.start();
+    webhookDispatcher.processDue()
+      .catch((error) => logger.warn({ error: error.message }, 'Failed to resume webhook deliveries'));
+
+    // Confirm payments submitted before their transaction was finalized,
+    // including those left pending by the previous run
+    paymentConfirmationWorker.start();
+    paymentConfirmationWorker.processDue()
+      .catch((error) => logger.warn({ error: error.message }, 'Failed to resume payment confirmations'));
+
+    // Reconcile the transfers ledger with the chain on a schedule
+    if (CONFIG.recipientWallet) {
+      reconciler.start(getReconciliationOptions());
+    }
+
+    // Drop expired replay-protection references, idempotency keys and sign-in nonces in the background
+    setInterval(() => {
+      Promise.all([storage.sweepExpiredReferences(), storage.sweepExpiredIdempotencyKeys(), storage.sweepExpiredAuthNonces()])
+        .then(([references, idempotencyKeys, authNonces]) => {
+          if (references > 0 || idempotencyKeys > 0 || authNonces > 0) {
+            logger.debug({ references, idempotencyKeys, authNonces }, 'Expired payment references swept');
+          }
+        })
+        .catch((error) => logger.warn({ error: error.message }, 'Failed to sweep expired payment references'));
+    }, appConfig.referenceSweepIntervalMs).unref();
+
     app.listen(PORT, () => {
     logger.info({
       port: PORT,
       environment: process.env.NODE_ENV || 'development',
       articlesPath: CONFIG.articlesPath,
-      splToken: CONFIG.splToken,
+      acceptedTokens: CONFIG.acceptedTokens.map(token => token.mint),
       recipientWallet: CONFIG.recipientWallet || null
     }, '🚀 CMS x402 Backend started successfully!');
 
@@ -7,12 +7,16 @@ import { articleLogger } from './logger';
 import { validateFilePath, sanitizeFileName, validateMarkdownContent, validateArticleId } from './validation';
 import { ArticleServiceError, ArticleProcessingError, ArticleScanningError, ArticleReadingError } from './types';
 import { pricing } from './pricing';
+import { Payee, parsePayees } from './revenue-splits';
+import { Author, authorRegistry } from './authors';
 
-interface Article {
+export interface Article {
   id: string;
   slug: string;
   title: string;
   author: string;
+  // Registered author, whose name replaces `author`
+  authorId?: string;
   date: string;
   excerpt: string;
   tags: string[];
@@ -26,13 +30,17 @@ interface Article {
   price?: number;
   currencySymbol?: string;
   currencyName?: string;
+  // Wallets sharing the article's revenue; empty when it all goes to MY_WALLET_ADDRESS
+  payees: Payee[];
 }
 
-interface ArticleListItem {
+export interface ArticleListItem {
   id: string;
   slug: string;
   title: string;
   author: string;
+  // Registered author, whose name replaces `author`
+  authorId?: string;
   date: string;
   excerpt: string;
   tags: string[];
@@ -71,13 +79,25 @@ class ArticleService {
     }
 
     try {
+      // Without the authors registry, only the articles naming an author are skipped
+      let authors = new Map<string, Author>();
+      let authorsLoaded = true;
+      try {
+        authors = new Map((await authorRegistry.list()).map(author => [author.id, author]));
+      } catch (error) {
+        authorsLoaded = false;
+        articleLogger.error({
+          error: error instanceof Error ? error.message : String(error)
+        }, 'Authors registry unavailable, skipping articles that name an author');
+      }
+
       const files = await fs.readdir(this.articlesPath);
       const markdownFiles = files.filter((file: string) =>
         file.endsWith('.md') && validateFilePath(file, this.articlesPath)
       );
 
       // Process files in parallel for better performance
-      const articlePromises = markdownFiles.map(async (file) => {
+      const articlePromises = markdownFiles.map(async (file): Promise<Article | null> => {
         try {
           const sanitizedFile = sanitizeFileName(file);
           const filePath = path.join(this.articlesPath, sanitizedFile);
@@ -97,11 +117,22 @@ class ArticleService {
           const { data, content } = matter(validation.sanitized);
           const words = content.split(/\s+/);
 
+          const authorId = typeof data.authorId === 'string' ? data.authorId.trim() : undefined;
+          const registeredAuthor = authorId ? authors.get(authorId) : undefined;
+          if (authorId && !registeredAuthor) {
+            articleLogger.warn({
+              file,
+              authorId
+            }, authorsLoaded ? 'Article names an unknown author, skipping it' : 'Article names an author, skipping it');
+            return null;
+          }
+
           const article: Article = {
             id: sanitizedFile.replace('.md', ''),
             slug: sanitizedFile.replace('.md', ''),
             title: data.title || 'Untitled',
-            author: data.author || 'Unknown',
+            author: registeredAuthor?.name || data.author || 'Unknown',
+            authorId,
             date: data.date || new Date().toISOString().split('T')[0],
             excerpt: data.excerpt || this.createExcerpt(content),
             tags: data.tags || [],
@@ -113,10 +144,10 @@ class ArticleService {
             // Add pricing information
             price: data.price || pricing.ARTICLE_COST,
             currencySymbol: data.currencySymbol || pricing.CURRENCY_SYMBOL,
-            currencyName: data.currencyName || pricing.CURRENCY_NAME
+            currencyName: data.currencyName || pricing.CURRENCY_NAME,
+            payees: this.getPayees(data.payees, registeredAuthor, authors)
           };
 
-          this.cache.set(article.id, article);
           return article;
         } catch (error) {
           const errorContext: ArticleProcessingError = {
@@ -131,11 +162,14 @@ class ArticleService {
 
       const articleResults = await Promise.allSettled(articlePromises);
       const articles = articleResults
-        .filter((result): result is PromiseFulfilledResult<Article> => result.status === 'fulfilled')
+        .filter((result): result is PromiseFulfilledResult<Article> => result.status === 'fulfilled' && result.value !== null)
         .map(result => result.value);
 
       articles.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
 
+      // Replaced rather than updated, so articles removed or skipped since
+      // the last scan stop being served
+      this.cache = new Map(articles.map(article => [article.id, article]));
       this.lastScan = now;
       return articles;
     } catch (error) {
@@ -201,6 +235,49 @@ class ArticleService {
     return null;
   }
 
+  async getArticleMetadata(articleId: string): Promise<Article | null> {
+    if (!validateArticleId(articleId)) {
+      articleLogger.warn({ articleId }, 'Invalid article ID format');
+      return null;
+    }
+
+    // Metadata comes from the scan cache, so the markdown body is not re-read
+    try {
+      await this.scanArticles();
+    } catch (error) {
+      articleLogger.error({ error: error instanceof Error ? error.message : String(error), articleId }, 'Failed to scan articles for getArticleMetadata');
+      return null;
+    }
+
+    return this.cache.get(articleId) || null;
+  }
+
+  /**
+   * An article's payees. Entries may name a registered author instead of a
+   * wallet, and an article of a registered author without payees pays that
+   * author in full.
+   */
+  private getPayees(value: unknown, author: Author | undefined, authors: Map<string, Author>): Payee[] {
+    const entries = Array.isArray(value)
+      ? value.map((entry: any) => {
+          if (typeof entry?.author !== 'string') {
+            return entry;
+          }
+          const payeeAuthor = authors.get(entry.author.trim());
+          if (!payeeAuthor) {
+            throw new Error(`Unknown payee author: ${entry.author}`);
+          }
+          return { wallet: payeeAuthor.wallet, share: entry.share };
+        })
+      : value;
+
+    const payees = parsePayees(entries);
+    if (payees.length === 0 && author) {
+      return [{ wallet: author.wallet, share: 100 }];
+    }
+    return payees;
+  }
+
   createExcerpt(content: string, maxLength: number = 150): string {
     const text = content.replace(/^#+\s+/gm, '').replace(/\*\*/g, '').replace(/\*/g, '');
     const plainText = text.replace(/\n/g, ' ').replace(/\s+/g, ' ').trim();
@@ -243,6 +320,7 @@ class ArticleService {
       slug: article.slug,
       title: article.title,
       author: article.author,
+      authorId: article.authorId,
       date: article.date,
       excerpt: article.excerpt,
       tags: article.tags,
@@ -264,6 +342,7 @@ class ArticleService {
       slug: article.slug,
       title: article.title,
       author: article.author,
+      authorId: article.authorId,
       date: article.date,
       excerpt: article.excerpt,
       tags: article.tags,
@@ -0,0 +1,161 @@
+// authors.ts - registry of the publication's authors and their payout wallets
+import * as path from 'path';
+import yaml from 'js-yaml';
+import { promises as fs } from 'fs';
+import { config } from './config';
+import { articleLogger } from './logger';
+import { validateSolanaAddress } from './validation';
+
+const AUTHOR_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+export interface Author {
+  id: string;
+  name: string;
+  wallet: string;
+  bio?: string;
+  avatarUrl?: string;
+  website?: string;
+}
+
+function optionalString(value: unknown, field: string, id: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Author ${id} has an invalid ${field}`);
+  }
+  return value.trim() || undefined;
+}
+
+/**
+ * Authors listed in a registry file:
+ *
+ *   authors:
+ *     - id: jane-doe
+ *       name: Jane Doe
+ *       wallet: <address>
+ *       bio: Covers privacy and cryptography
+ *
+ * IDs are lowercase letters, digits, hyphens and underscores, and each must
+ * be unique. Every author needs a name and a payout wallet.
+ */
+export function parseAuthors(value: unknown): Author[] {
+  const entries = (value as any)?.authors;
+  if (!Array.isArray(entries)) {
+    throw new Error('Authors registry must have an `authors` list');
+  }
+
+  const authors = entries.map((entry: any): Author => {
+    const id = typeof entry?.id === 'string' ? entry.id.trim() : '';
+    const name = typeof entry?.name === 'string' ? entry.name.trim() : '';
+    const wallet = typeof entry?.wallet === 'string' ? entry.wallet.trim() : '';
+
+    if (!AUTHOR_ID_PATTERN.test(id)) {
+      throw new Error(`Invalid author ID: ${entry?.id}`);
+    }
+    if (!name) {
+      throw new Error(`Author ${id} has no name`);
+    }
+    if (!validateSolanaAddress(wallet)) {
+      throw new Error(`Author ${id} has an invalid wallet: ${entry?.wallet}`);
+    }
+
+    return {
+      id,
+      name,
+      wallet,
+      bio: optionalString(entry.bio, 'bio', id),
+      avatarUrl: optionalString(entry.avatarUrl, 'avatarUrl', id),
+      website: optionalString(entry.website, 'website', id)
+    };
+  });
+
+  const ids = new Set(authors.map(author => author.id));
+  if (ids.size !== authors.length) {
+    throw new Error('Each author ID may only be listed once');
+  }
+
+  return authors;
+}
+
+/**
+ * An author's public profile, as returned by the API
+ */
+export function describeAuthor(author: Author) {
+  return {
+    id: author.id,
+    name: author.name,
+    wallet: author.wallet,
+    bio: author.bio ?? null,
+    avatarUrl: author.avatarUrl ?? null,
+    website: author.website ?? null
+  };
+}
+
+/**
+ * Reads the authors registry (AUTHORS_PATH) and keeps it for the cache TTL,
+ * like the articles. A `.json` file is parsed as JSON and anything else as
+ * YAML. A missing file is an empty registry; an invalid one is an error, so
+ * no article is paid to the wrong wallet.
+ */
+export class AuthorRegistry {
+  private authors = new Map<string, Author>();
+  private lastLoad: number | null = null;
+  private loading: Promise<Map<string, Author>> | null = null;
+
+  constructor(private filePath: string = config.authorsPath) {}
+
+  async get(authorId: string): Promise<Author | null> {
+    return (await this.load()).get(authorId) ?? null;
+  }
+
+  async list(): Promise<Author[]> {
+    return Array.from((await this.load()).values());
+  }
+
+  private async load(): Promise<Map<string, Author>> {
+    if (this.lastLoad && (Date.now() - this.lastLoad) < config.cacheTtl) {
+      return this.authors;
+    }
+
+    if (!this.loading) {
+      this.loading = this.read().finally(() => {
+        this.loading = null;
+      });
+    }
+    return this.loading;
+  }
+
+  private async read(): Promise<Map<string, Author>> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+      if (this.lastLoad === null) {
+        articleLogger.info({ filePath: this.filePath }, 'No authors registry found');
+      }
+      raw = '';
+    }
+
+    try {
+      const data = path.extname(this.filePath) === '.json'
+        ? JSON.parse(raw || '{"authors": []}')
+        : yaml.load(raw) ?? { authors: [] };
+
+      this.authors = new Map(parseAuthors(data).map(author => [author.id, author]));
+      this.lastLoad = Date.now();
+      return this.authors;
+    } catch (error) {
+      articleLogger.error({
+        error: error instanceof Error ? error.message : String(error),
+        filePath: this.filePath
+      }, 'Invalid authors registry');
+      throw error;
+    }
+  }
+}
+
+export const authorRegistry = new AuthorRegistry();
@@ -0,0 +1,40 @@
+// budget-events.ts - in-process notifications of committed budget changes
+import { EventEmitter } from 'events';
+import { budgetLogger } from './logger';
+import { BudgetEvent } from './types';
+
+const BUDGET_EVENT = 'budget';
+
+/**
+ * Storage publishes a BudgetEvent after each deposit or article purchase is
+ * committed. A failing listener is logged and never affects the payment.
+ */
+class BudgetEventBus {
+  private emitter = new EventEmitter();
+
+  publish(event: BudgetEvent): void {
+    this.emitter.emit(BUDGET_EVENT, event);
+  }
+
+  /**
+   * Listen for budget events; returns a function that stops listening
+   */
+  subscribe(listener: (event: BudgetEvent) => void | Promise<void>): () => void {
+    const handler = (event: BudgetEvent) => {
+      try {
+        Promise.resolve(listener(event)).catch((error: any) => {
+          budgetLogger.error({ error: error.message, type: event.type, signatureId: event.signatureId }, "Budget event listener failed");
+        });
+      } catch (error: any) {
+        budgetLogger.error({ error: error.message, type: event.type, signatureId: event.signatureId }, "Budget event listener failed");
+      }
+    };
+
+    this.emitter.on(BUDGET_EVENT, handler);
+    return () => {
+      this.emitter.off(BUDGET_EVENT, handler);
+    };
+  }
+}
+
+export const budgetEvents = new BudgetEventBus();
@@ -1,4 +1,16 @@
+import { randomBytes } from 'crypto';
 import { validateCorsOrigins } from './validation';
+export interface StaticMintMetadata {
+  decimals?: number;
+  symbol?: string;
+}
+
+export interface AcceptedTokenConfig {
+  mint: string;
+  symbol?: string;
+  price?: number;
+}
+
 export interface AppConfig {
   port: number;
   nodeEnv: string;
@@ -9,6 +21,32 @@ export interface AppConfig {
   cacheTtl: number;
   memoProgramId: string;
   paymentDescription: string;
+  accessTokenSecret: string;
+  accessTokenSecretConfigured: boolean;
+  accessTokenTtl: number;
+  solanaRpcUrls: string[];
+  rpcTimeoutMs: number;
+  rpcCooldownMs: number;
+  mintMetadata: Record<string, StaticMintMetadata>;
+  acceptedTokens: AcceptedTokenConfig[];
+  referenceSweepIntervalMs: number;
+  invoiceTtl: number;
+  signedRequestTtl: number;
+  sessionTokenTtl: number;
+  authNonceTtl: number;
+  siwsDomain: string | null;
+  webhookMaxAttempts: number;
+  webhookRetryBaseDelay: number;
+  webhookTimeoutMs: number;
+  webhookLowBalanceThreshold: number;
+  paymentConfirmationTtl: number;
+  paymentConfirmationRetryBaseDelay: number;
+  reconciliationIntervalMs: number;
+  reconciliationLookback: number;
+  adminApiKey: string | null;
+  platformFeePercent: number;
+  authorsPath: string;
+  databasePath: string;
 }
 
 export function getConfig(): AppConfig {
@@ -16,9 +54,27 @@ export function getConfig(): AppConfig {
   const nodeEnv = process.env.NODE_ENV || 'development';
   const solanaNetwork = process.env.SOLANA_NETWORK || 'devnet';
   const articlesPath = process.env.ARTICLES_PATH || './articles';
+  const authorsPath = process.env.AUTHORS_PATH || './authors.yaml';
+  const databasePath = process.env.DATABASE_PATH || './storage.sqlite';
   const corsOriginsRaw = process.env.CORS_ORIGINS || 'http://localhost:3000';
   const logLevel = process.env.LOG_LEVEL || (nodeEnv === 'production' ? 'info' : 'debug');
   const cacheTtl = process.env.CACHE_TTL ? parseInt(process.env.CACHE_TTL, 10) : 300000; // 5 minutes
+  const rpcTimeoutMs = process.env.RPC_TIMEOUT_MS ? parseInt(process.env.RPC_TIMEOUT_MS, 10) : 10000;
+  const rpcCooldownMs = process.env.RPC_ENDPOINT_COOLDOWN_MS ? parseInt(process.env.RPC_ENDPOINT_COOLDOWN_MS, 10) : 30000;
+  const accessTokenTtl = process.env.ACCESS_TOKEN_TTL ? parseInt(process.env.ACCESS_TOKEN_TTL, 10) : 900; // 15 minutes
+  const invoiceTtl = process.env.INVOICE_TTL ? parseInt(process.env.INVOICE_TTL, 10) : 300; // 5 minutes
+  const signedRequestTtl = process.env.SIGNED_REQUEST_TTL ? parseInt(process.env.SIGNED_REQUEST_TTL, 10) : 300; // 5 minutes
+  const sessionTokenTtl = process.env.SESSION_TOKEN_TTL ? parseInt(process.env.SESSION_TOKEN_TTL, 10) : 86400; // 24 hours
+  const authNonceTtl = process.env.AUTH_NONCE_TTL ? parseInt(process.env.AUTH_NONCE_TTL, 10) : 300; // 5 minutes
+  const webhookMaxAttempts = process.env.WEBHOOK_MAX_ATTEMPTS ? parseInt(process.env.WEBHOOK_MAX_ATTEMPTS, 10) : 8;
+  const webhookRetryBaseDelay = process.env.WEBHOOK_RETRY_BASE_DELAY ? parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY, 10) : 30; // 30 seconds
+  const webhookTimeoutMs = process.env.WEBHOOK_TIMEOUT_MS ? parseInt(process.env.WEBHOOK_TIMEOUT_MS, 10) : 10000;
+  const webhookLowBalanceThreshold = process.env.WEBHOOK_LOW_BALANCE_THRESHOLD ? parseFloat(process.env.WEBHOOK_LOW_BALANCE_THRESHOLD) : 1;
+  const paymentConfirmationTtl = process.env.PAYMENT_CONFIRMATION_TTL ? parseInt(process.env.PAYMENT_CONFIRMATION_TTL, 10) : 600; // 10 minutes
+  const paymentConfirmationRetryBaseDelay = process.env.PAYMENT_CONFIRMATION_RETRY_BASE_DELAY ? parseInt(process.env.PAYMENT_CONFIRMATION_RETRY_BASE_DELAY, 10) : 2; // 2 seconds
+  const reconciliationIntervalMs = process.env.RECONCILIATION_INTERVAL_MS ? parseInt(process.env.RECONCILIATION_INTERVAL_MS, 10) : 3600000; // 1 hour
+  const reconciliationLookback = process.env.RECONCILIATION_LOOKBACK ? parseInt(process.env.RECONCILIATION_LOOKBACK, 10) : 604800; // 7 days
+  const referenceSweepIntervalMs = process.env.REFERENCE_SWEEP_INTERVAL_MS ? parseInt(process.env.REFERENCE_SWEEP_INTERVAL_MS, 10) : 60000; // 1 minute
 
   return {
     port,
@@ -29,14 +85,115 @@ export function getConfig(): AppConfig {
     logLevel,
     cacheTtl,
     memoProgramId: process.env.MEMO_PROGRAM_ID || "MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr",
-    paymentDescription: process.env.PAYMENT_DESCRIPTION || "My X402 Articles"
+    paymentDescription: process.env.PAYMENT_DESCRIPTION || "My X402 Articles",
+    // Without a configured secret, tokens are only valid until the process restarts
+    accessTokenSecret: process.env.ACCESS_TOKEN_SECRET || randomBytes(32).toString('hex'),
+    accessTokenSecretConfigured: !!process.env.ACCESS_TOKEN_SECRET,
+    accessTokenTtl,
+    solanaRpcUrls: (process.env.SOLANA_RPC_URLS || '')
+      .split(',')
+      .map(url => url.trim())
+      .filter(url => url.length > 0),
+    rpcTimeoutMs,
+    rpcCooldownMs,
+    mintMetadata: parseMintMetadata(process.env.MINT_METADATA),
+    acceptedTokens: parseAcceptedTokens(process.env.ACCEPTED_TOKENS),
+    referenceSweepIntervalMs,
+    invoiceTtl,
+    signedRequestTtl,
+    sessionTokenTtl,
+    authNonceTtl,
+    // Domain shown in sign-in messages; defaults to the request's Host header
+    siwsDomain: process.env.SIWS_DOMAIN || null,
+    webhookMaxAttempts,
+    webhookRetryBaseDelay,
+    webhookTimeoutMs,
+    // Default budget.low threshold in the pricing currency
+    webhookLowBalanceThreshold,
+    // How long a proof whose transaction is not on chain yet keeps being checked
+    paymentConfirmationTtl,
+    paymentConfirmationRetryBaseDelay,
+    reconciliationIntervalMs,
+    reconciliationLookback,
+    // Admin routes are disabled until a key is configured
+    adminApiKey: process.env.ADMIN_API_KEY || null,
+    // Platform's cut of every article payment, before payees' shares
+    platformFeePercent: parsePlatformFeePercent(process.env.PLATFORM_FEE_PERCENT),
+    // Author profiles and payout wallets, as YAML or JSON
+    authorsPath,
+    // SQLite database file
+    databasePath
   };
 }
 
+/**
+ * Parse ACCEPTED_TOKENS, a JSON array of the mints readers can pay with, e.g.
+ * [{"mint": "EPjF...Dt1v", "symbol": "USDC", "price": 1}]
+ */
+function parseAcceptedTokens(raw: string | undefined): AcceptedTokenConfig[] {
+  if (!raw || raw.trim() === '') {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed) || parsed.some(entry => !entry || typeof entry.mint !== 'string')) {
+      throw new Error('expected an array of { mint, symbol?, price? } entries');
+    }
+    return parsed;
+  } catch (error: any) {
+    throw new Error(`Invalid ACCEPTED_TOKENS: ${error.message}`);
+  }
+}
+
+/**
+ * Parse PLATFORM_FEE_PERCENT, a percentage from 0 to 100 with at most two
+ * decimals
+ */
+function parsePlatformFeePercent(raw: string | undefined): number {
+  if (!raw || raw.trim() === '') {
+    return 0;
+  }
+
+  const percent = Number(raw);
+  if (!(percent >= 0 && percent <= 100) || !Number.isInteger(Math.round(percent * 1e6) / 1e4)) {
+    throw new Error(`Invalid PLATFORM_FEE_PERCENT: expected a percentage from 0 to 100 with at most two decimals`);
+  }
+  return percent;
+}
+
+/**
+ * Parse MINT_METADATA, a JSON object keyed by mint address, e.g.
+ * {"EPjF...Dt1v": {"decimals": 6, "symbol": "USDC"}}
+ */
+function parseMintMetadata(raw: string | undefined): Record<string, StaticMintMetadata> {
+  if (!raw || raw.trim() === '') {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('expected an object keyed by mint address');
+    }
+    return parsed;
+  } catch (error: any) {
+    throw new Error(`Invalid MINT_METADATA: ${error.message}`);
+  }
+}
+
 export const config = getConfig();
 
 export function getSolanaRpcUrl(): string {
-  return `https://api.${config.solanaNetwork}.solana.com`;
+  return process.env.SOLANA_RPC_URL || `https://api.${config.solanaNetwork}.solana.com`;
+}
+
+/**
+ * RPC endpoints in failover order: SOLANA_RPC_URLS if set, otherwise the single
+ * SOLANA_RPC_URL / public cluster endpoint
+ */
+export function getSolanaRpcUrls(): string[] {
+  return config.solanaRpcUrls.length > 0 ? config.solanaRpcUrls : [getSolanaRpcUrl()];
 }
 
 export function isDevelopment(): boolean {
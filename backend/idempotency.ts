@@ -0,0 +1,117 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { apiLogger } from './logger';
+import { storage } from './storage';
+
+const IDEMPOTENCY_KEY_TTL = 24 * 60 * 60; // 24 hours
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+export interface IdempotencyOptions {
+  // Don't store 202 responses: the endpoint answers 202 while a payment is
+  // still being confirmed, and a retry must see how it turned out
+  releasePending?: boolean;
+}
+
+/**
+ * JSON with object keys sorted, so the same body always hashes the same
+ * regardless of property order
+ */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashRequestBody(body: unknown): string {
+  return createHash('sha256').update(canonicalJson(body)).digest('hex');
+}
+
+/**
+ * Idempotency middleware for POST endpoints. When the client sends an
+ * `Idempotency-Key` header, the first response is stored; a retry with the
+ * same key and body gets that response replayed, and a retry with the same
+ * key but a different body gets a 409. Server errors (5xx) are not stored,
+ * so the request can be retried with the same key. With `releasePending`,
+ * neither is a 202; other endpoints' 202s (e.g. a withdrawal accepted for
+ * payout) are replayed like any other response.
+ *
+ * Keys belong to the wallet `getOwner` returns for the request, so two
+ * wallets picking the same key never see or block each other's responses.
+ */
+export function createIdempotencyMiddleware(
+  scope: string,
+  getOwner: (req: Request) => unknown,
+  options: IdempotencyOptions = {}
+) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    const key = req.get('Idempotency-Key');
+    if (!key) {
+      return next();
+    }
+
+    if (!IDEMPOTENCY_KEY_PATTERN.test(key)) {
+      res.status(400).json({ error: "Invalid Idempotency-Key header (1-255 printable characters)" });
+      return;
+    }
+
+    const owner = getOwner(req);
+    const ownerScope = `${scope}:${typeof owner === 'string' ? owner : ''}`;
+
+    try {
+      const requestHash = hashRequestBody(req.body);
+      const existing = await storage.claimIdempotencyKey(ownerScope, key, requestHash, IDEMPOTENCY_KEY_TTL);
+
+      if (existing) {
+        if (existing.request_hash !== requestHash) {
+          res.status(409).json({
+            error: "Idempotency-Key was already used with a different request body",
+            code: 'IDEMPOTENCY_KEY_REUSED'
+          });
+          return;
+        }
+
+        if (existing.status === 'in_progress') {
+          res.status(409).json({
+            error: "A request with this Idempotency-Key is still being processed",
+            code: 'IDEMPOTENCY_KEY_IN_PROGRESS'
+          });
+          return;
+        }
+
+        apiLogger.info({ scope, key }, "Replaying stored idempotent response");
+        res.set('Idempotent-Replayed', 'true');
+        res.status(existing.response_status!).json(existing.response_body);
+        return;
+      }
+
+      // Store the response before it is sent, so a retry that races the
+      // first response still sees it
+      const sendJson = res.json.bind(res);
+      res.json = (body: any) => {
+        const statusCode = res.statusCode;
+        const persist = statusCode >= 500 || (options.releasePending && statusCode === 202)
+          ? storage.releaseIdempotencyKey(ownerScope, key)
+          : storage.completeIdempotencyKey(ownerScope, key, statusCode, body);
+
+        persist
+          .catch((error: any) => {
+            apiLogger.error({ error: error.message, scope, key }, "Failed to store idempotent response");
+          })
+          .finally(() => sendJson(body));
+        return res;
+      };
+
+      return next();
+    } catch (error: any) {
+      apiLogger.error({ error: error.message, scope, key }, "Idempotency check failed");
+      res.status(500).json({ error: "Failed to process Idempotency-Key" });
+    }
+  };
+}
@@ -0,0 +1,37 @@
+// ledger-check.ts - check that the double-entry ledger balances
+//
+// Usage: npm run ledger:check
+// Exits with 0 when the books balance, 2 when invariants are broken and 1
+// when the check could not run.
+import 'dotenv/config';
+import { logger } from './logger';
+import { checkLedger } from './ledger';
+import { storage } from './storage';
+
+async function main(): Promise<number> {
+  await storage.initialize();
+  try {
+    const result = await checkLedger();
+
+    console.log(JSON.stringify({
+      checkedAt: new Date(result.checkedAt * 1000).toISOString(),
+      accountsChecked: result.accountsChecked,
+      balancesChecked: result.balancesChecked,
+      balanced: result.violations.length === 0,
+      violations: result.violations
+    }, null, 2));
+
+    return result.violations.length > 0 ? 2 : 0;
+  } finally {
+    await storage.close();
+  }
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((error: any) => {
+    logger.error({ error: error.message }, 'Ledger check failed');
+    process.exitCode = 1;
+  });
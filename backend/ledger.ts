@@ -0,0 +1,139 @@
+// ledger.ts - invariant checks for the double-entry ledger
+import { storage } from './storage';
+import { LedgerAccountBalance, LedgerAccountType, LedgerViolation } from './types';
+
+// budget_balances columns each budget account is cached in
+const CACHED_ACCOUNTS: { accountType: LedgerAccountType; column: 'amount' | 'reserved_amount' }[] = [
+  { accountType: 'user_budget', column: 'amount' },
+  { accountType: 'user_reserved', column: 'reserved_amount' }
+];
+
+export interface LedgerCheckResult {
+  checkedAt: number;
+  accountsChecked: number;
+  balancesChecked: number;
+  violations: LedgerViolation[];
+}
+
+/**
+ * Balance of an account on its normal side: debits less credits for the
+ * treasury, credits less debits for every other account
+ */
+export function getAccountBalance(account: LedgerAccountBalance): number {
+  return account.account_type === 'treasury'
+    ? account.debits - account.credits
+    : account.credits - account.debits;
+}
+
+function accountKey(owner: string, solanaCluster: string, tokenMintAddress: string): string {
+  return `${owner}:${solanaCluster}:${tokenMintAddress}`;
+}
+
+/**
+ * Prove the books balance: every journal entry and every token's postings
+ * as a whole must have equal debits and credits, no budget account may be
+ * overdrawn, and every budget_balances row must equal the balance of its
+ * user_budget and user_reserved accounts.
+ */
+export async function checkLedger(): Promise<LedgerCheckResult> {
+  const violations: LedgerViolation[] = [];
+
+  for (const entry of await storage.getUnbalancedJournalEntries()) {
+    violations.push({
+      kind: 'unbalanced_entry',
+      entry_id: entry.entry_id,
+      expected: entry.debits,
+      actual: entry.credits,
+      detail: `Journal entry ${entry.entry_id} (${entry.kind}${entry.signature_id ? ` ${entry.signature_id}` : ''}) has ${entry.postings} postings, debits ${entry.debits} and credits ${entry.credits}`
+    });
+  }
+
+  const accounts = await storage.getLedgerAccountBalances();
+  const books = new Map<string, { solanaCluster: LedgerAccountBalance['solana_cluster']; tokenMintAddress: string; debits: number; credits: number }>();
+  for (const account of accounts) {
+    const key = `${account.solana_cluster}:${account.token_mint_address}`;
+    const totals = books.get(key) ?? { solanaCluster: account.solana_cluster, tokenMintAddress: account.token_mint_address, debits: 0, credits: 0 };
+    totals.debits += account.debits;
+    totals.credits += account.credits;
+    books.set(key, totals);
+  }
+
+  for (const totals of books.values()) {
+    if (totals.debits !== totals.credits) {
+      violations.push({
+        kind: 'unbalanced_books',
+        solana_cluster: totals.solanaCluster,
+        token_mint_address: totals.tokenMintAddress,
+        expected: totals.debits,
+        actual: totals.credits,
+        detail: `Postings in ${totals.tokenMintAddress} on ${totals.solanaCluster} total ${totals.debits} in debits and ${totals.credits} in credits`
+      });
+    }
+  }
+
+  const balances = await storage.listBudgetBalances();
+  for (const { accountType, column } of CACHED_ACCOUNTS) {
+    const ledgerBalances = new Map<string, number>();
+    for (const account of accounts.filter(account => account.account_type === accountType)) {
+      const balance = getAccountBalance(account);
+      ledgerBalances.set(accountKey(account.owner, account.solana_cluster, account.token_mint_address), balance);
+
+      if (balance < 0) {
+        violations.push({
+          kind: 'negative_balance',
+          account_type: accountType,
+          owner: account.owner,
+          solana_cluster: account.solana_cluster,
+          token_mint_address: account.token_mint_address,
+          actual: balance,
+          detail: `${accountType} of ${account.owner} is overdrawn by ${-balance}`
+        });
+      }
+    }
+
+    // Every cached balance must match its account, and every account with
+    // a balance must be cached
+    const cached = new Set<string>();
+    for (const row of balances) {
+      const key = accountKey(row.wallet_address, row.solana_cluster, row.token_mint_address);
+      const expected = ledgerBalances.get(key) ?? 0;
+      cached.add(key);
+
+      if (row[column] !== expected) {
+        violations.push({
+          kind: 'balance_mismatch',
+          account_type: accountType,
+          owner: row.wallet_address,
+          solana_cluster: row.solana_cluster,
+          token_mint_address: row.token_mint_address,
+          expected,
+          actual: row[column],
+          detail: `budget_balances.${column} of ${row.wallet_address} is ${row[column]}, the ledger says ${expected}`
+        });
+      }
+    }
+
+    for (const account of accounts.filter(account => account.account_type === accountType)) {
+      const balance = getAccountBalance(account);
+      if (balance !== 0 && !cached.has(accountKey(account.owner, account.solana_cluster, account.token_mint_address))) {
+        violations.push({
+          kind: 'balance_mismatch',
+          account_type: accountType,
+          owner: account.owner,
+          solana_cluster: account.solana_cluster,
+          token_mint_address: account.token_mint_address,
+          expected: balance,
+          actual: 0,
+          detail: `${accountType} of ${account.owner} has a ledger balance of ${balance} but no budget_balances row`
+        });
+      }
+    }
+  }
+
+  return {
+    checkedAt: Math.floor(Date.now() / 1000),
+    accountsChecked: accounts.length,
+    balancesChecked: balances.length,
+    violations
+  };
+}
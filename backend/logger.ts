@@ -19,6 +19,9 @@ const loggerConfig: LoggerOptions = {
   redact: isDevelopment ? [] : [
     'req.headers.authorization',
     'req.headers["x402-payer-pubkey"]',
+    'req.headers["x402-session-token"]',
+    'req.headers["x-agent-key"]',
+    'req.headers["x-admin-key"]',
     'user.wallet'
   ],
   base: {
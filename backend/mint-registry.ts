@@ -0,0 +1,87 @@
+// mint-registry.ts - cached SPL mint metadata (decimals never change)
+import { paymentLogger } from './logger';
+import { config } from './config';
+import { SolanaRpcClient, getRpcClient } from './solana-rpc';
+
+export interface MintMetadata {
+  address: string;
+  decimals: number;
+}
+
+/**
+ * Loads each mint's decimals once and keeps them for the life of the process.
+ * Mints fully described in MINT_METADATA never hit the network.
+ */
+export class MintRegistry {
+  private mints = new Map<string, MintMetadata>();
+  private pending = new Map<string, Promise<MintMetadata>>();
+
+  constructor(staticMetadata: typeof config.mintMetadata = config.mintMetadata) {
+    for (const [mintAddress, metadata] of Object.entries(staticMetadata)) {
+      if (typeof metadata.decimals === 'number') {
+        this.register({
+          address: mintAddress,
+          decimals: metadata.decimals
+        });
+      }
+    }
+  }
+
+  register(metadata: MintMetadata): void {
+    this.mints.set(metadata.address, metadata);
+  }
+
+  /**
+   * Get a mint's metadata, fetching decimals over RPC only on first use.
+   * Concurrent first lookups of the same mint share one request.
+   */
+  async get(mintAddress: string, rpcClient: SolanaRpcClient = getRpcClient()): Promise<MintMetadata> {
+    const cached = this.mints.get(mintAddress);
+    if (cached) {
+      return cached;
+    }
+
+    let pending = this.pending.get(mintAddress);
+    if (!pending) {
+      pending = this.load(mintAddress, rpcClient).finally(() => {
+        this.pending.delete(mintAddress);
+      });
+      this.pending.set(mintAddress, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Preload mints at startup so the first paid request doesn't wait on RPC.
+   * Failures are logged; those mints are retried lazily on first use.
+   */
+  async warmUp(mintAddresses: string[], rpcClient: SolanaRpcClient = getRpcClient()): Promise<void> {
+    const results = await Promise.allSettled(
+      mintAddresses.map(mintAddress => this.get(mintAddress, rpcClient))
+    );
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        paymentLogger.warn({
+          mint: mintAddresses[index],
+          error: result.reason instanceof Error ? result.reason.message : String(result.reason)
+        }, "Failed to warm up mint metadata");
+      }
+    });
+  }
+
+  private async load(mintAddress: string, rpcClient: SolanaRpcClient): Promise<MintMetadata> {
+    const mint = await rpcClient.getMint(mintAddress);
+    const metadata: MintMetadata = {
+      address: mintAddress,
+      decimals: mint.decimals
+    };
+
+    this.register(metadata);
+    paymentLogger.info(metadata, "Mint metadata loaded");
+    return metadata;
+  }
+}
+
+export const mintRegistry = new MintRegistry();
@@ -0,0 +1,269 @@
+// payment-confirmations.ts - background confirmation of payments not yet on chain
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { PaymentRequirement } from './accepted-tokens';
+import { config } from './config';
+import { paymentLogger } from './logger';
+import { fromInvoiceOption, verifyTransaction } from './paywall';
+import { SolanaRpcClient, getRpcClient } from './solana-rpc';
+import { storage } from './storage';
+import { PaymentConfirmationRecord, PaymentConfirmationStatus, VerificationResult } from './types';
+
+const CONFIRMATION_RETRY_MAX_DELAY = 30; // 30 seconds
+const CONFIRMATION_POLL_INTERVAL_MS = 1000;
+
+// Verification failures worth checking again: the transaction is not
+// finalized yet, or the RPC could not be reached
+const RETRYABLE_CODES = ['TRANSACTION_NOT_FOUND', 'VERIFICATION_FAILED'];
+
+/**
+ * Seconds to wait after the given number of checks, doubling from
+ * PAYMENT_CONFIRMATION_RETRY_BASE_DELAY up to 30 seconds
+ */
+export function getConfirmationRetryDelay(checks: number): number {
+  return Math.min(config.paymentConfirmationRetryBaseDelay * Math.pow(2, Math.max(checks - 1, 0)), CONFIRMATION_RETRY_MAX_DELAY);
+}
+
+function getSolanaCluster(): 'mainnet-beta' | 'devnet' {
+  return process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet';
+}
+
+interface ConfirmationOutcome {
+  status: PaymentConfirmationStatus;
+  error?: string;
+  errorCode?: string;
+  result?: Record<string, unknown>;
+}
+
+/**
+ * Checks queued payment proofs until their transaction is finalized, then
+ * records the payment exactly as the request that submitted it would have:
+ * an article payment is claimed against its invoice and granted, a deposit
+ * is credited to the payer's budget. Proofs that fail verification or are
+ * still not finalized when they expire are given up on.
+ */
+export class PaymentConfirmationWorker {
+  private inFlight = new Set<string>();
+  private settled = new EventEmitter();
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(private rpcClient?: SolanaRpcClient) {
+    this.settled.setMaxListeners(0);
+  }
+
+  /**
+   * Start checking due confirmations in the background
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+
+    this.pollTimer = setInterval(() => {
+      this.processDue().catch((error: any) => {
+        paymentLogger.warn({ error: error.message }, "Failed to check pending payment confirmations");
+      });
+    }, CONFIRMATION_POLL_INTERVAL_MS);
+    this.pollTimer.unref();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  /**
+   * Check every pending confirmation whose next check is due
+   */
+  async processDue(): Promise<number> {
+    const due = await storage.getDuePaymentConfirmations();
+    for (const confirmation of due) {
+      await this.check(confirmation);
+    }
+    return due.length;
+  }
+
+  /**
+   * Look the transaction up at finalized commitment and settle the
+   * confirmation, or schedule another check
+   */
+  async check(confirmation: PaymentConfirmationRecord): Promise<void> {
+    if (this.inFlight.has(confirmation.reference)) {
+      return;
+    }
+    this.inFlight.add(confirmation.reference);
+
+    try {
+      const checks = confirmation.checks + 1;
+      const requirements: PaymentRequirement[] = confirmation.options.map(fromInvoiceOption);
+
+      const verification = await verifyTransaction(
+        confirmation.signature_id,
+        confirmation.reference,
+        requirements,
+        confirmation.recipient_wallet,
+        confirmation.payer_address,
+        this.rpcClient ?? getRpcClient(),
+        ['finalized']
+      );
+
+      const now = Math.floor(Date.now() / 1000);
+      let outcome: ConfirmationOutcome;
+      if (verification.success) {
+        outcome = await this.complete(confirmation, verification, requirements);
+      } else if (RETRYABLE_CODES.includes(verification.code!)) {
+        outcome = now >= confirmation.expires_at
+          ? { status: 'expired', error: 'Transaction was not finalized in time', errorCode: 'CONFIRMATION_EXPIRED' }
+          : { status: 'pending', error: verification.error, errorCode: verification.code };
+      } else {
+        outcome = { status: 'failed', error: verification.error, errorCode: verification.code };
+      }
+
+      const nextCheckAt = outcome.status === 'pending' ? now + getConfirmationRetryDelay(checks) : now;
+      await storage.updatePaymentConfirmation(confirmation.reference, outcome.status, {
+        checks,
+        nextCheckAt,
+        error: outcome.error,
+        errorCode: outcome.errorCode,
+        result: outcome.result
+      });
+
+      const logContext = { reference: confirmation.reference, signature: confirmation.signature_id, kind: confirmation.kind, checks };
+      if (outcome.status === 'pending') {
+        paymentLogger.debug({ ...logContext, nextCheckAt }, "Payment not finalized yet, will check again");
+      } else {
+        paymentLogger.info({ ...logContext, status: outcome.status, error: outcome.error }, "Payment confirmation settled");
+        this.settled.emit(confirmation.reference);
+      }
+    } catch (error: any) {
+      paymentLogger.error({ error: error.message, reference: confirmation.reference }, "Failed to check payment confirmation");
+    } finally {
+      this.inFlight.delete(confirmation.reference);
+    }
+  }
+
+  /**
+   * Wait up to `timeoutMs` for a pending confirmation to settle, for
+   * long-polling clients. Resolves with the confirmation as it then stands.
+   */
+  async waitForSettled(reference: string, timeoutMs: number): Promise<PaymentConfirmationRecord | null> {
+    const confirmation = await storage.getPaymentConfirmation(reference);
+    if (!confirmation || confirmation.status !== 'pending' || timeoutMs <= 0) {
+      return confirmation;
+    }
+
+    await new Promise<void>(resolve => {
+      const onSettled = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        this.settled.off(reference, onSettled);
+        resolve();
+      }, timeoutMs);
+      this.settled.once(reference, onSettled);
+    });
+
+    return storage.getPaymentConfirmation(reference);
+  }
+
+  /**
+   * Record a finalized payment. The amount must match the option paid
+   * exactly, as it must when the proof is verified on submission.
+   */
+  private async complete(
+    confirmation: PaymentConfirmationRecord,
+    verification: VerificationResult,
+    requirements: PaymentRequirement[]
+  ): Promise<ConfirmationOutcome> {
+    const paidRequirement = requirements.find(requirement => requirement.token === verification.tokenMint)!;
+    if (verification.amountReceivedSmallestUnit !== paidRequirement.amountSmallestUnit) {
+      return {
+        status: 'failed',
+        error: `Incorrect token amount. Received: ${verification.amountReceivedSmallestUnit}, Required: ${paidRequirement.amountSmallestUnit}`,
+        errorCode: 'AMOUNT_MISMATCH'
+      };
+    }
+
+    const payer = verification.payer!;
+    const signature = confirmation.signature_id;
+    const refKey = `ref_${confirmation.reference}`;
+
+    if (confirmation.kind === 'article') {
+      const claimed = await storage.transitionInvoice(confirmation.reference, 'pending', 'paid', {
+        signatureId: signature,
+        tokenMintAddress: paidRequirement.token
+      });
+      if (!claimed || !await storage.addReference(refKey, { ex: 300, signature })) {
+        return { status: 'failed', error: 'Payment already claimed', errorCode: 'ALREADY_CLAIMED' };
+      }
+
+      try {
+        await storage.processOneTimeArticlePayment(
+          signature,
+          payer,
+          confirmation.recipient_wallet,
+          getSolanaCluster(),
+          Number(paidRequirement.amountSmallestUnit),
+          paidRequirement.decimals,
+          paidRequirement.symbol,
+          paidRequirement.token,
+          confirmation.article_id!,
+          confirmation.reference,
+          paidRequirement.splits
+        );
+      } catch (sqliteError: any) {
+        paymentLogger.warn({
+          error: sqliteError.message,
+          signature,
+          articleId: confirmation.article_id
+        }, "Failed to record one-time payment in SQLite");
+      }
+
+      return {
+        status: 'confirmed',
+        result: { payer, articleId: confirmation.article_id, token: paidRequirement.token, symbol: paidRequirement.symbol }
+      };
+    }
+
+    if (await storage.isSignatureUsed(signature) || !await storage.addReference(refKey, { ex: 3600, signature })) {
+      return { status: 'failed', error: 'This budget deposit has already been claimed', errorCode: 'ALREADY_CLAIMED' };
+    }
+
+    try {
+      await storage.processTopUp({
+        signatureId: signature,
+        from: payer,
+        to: confirmation.recipient_wallet,
+        solanaCluster: getSolanaCluster(),
+        amount: Number(verification.amountReceivedSmallestUnit),
+        decimal: paidRequirement.decimals,
+        tokenSymbol: paidRequirement.symbol,
+        tokenMintAddress: paidRequirement.token,
+        memoValue: `TOPUP-${uuidv4()}`
+      });
+    } catch (error: any) {
+      paymentLogger.error({ error: error.message, payer, reference: confirmation.reference }, "SQLite top-up processing failed");
+
+      // Nothing was credited, so the next check can try again
+      await storage.delReference(refKey);
+      return { status: 'pending', error: 'Failed to record budget deposit', errorCode: 'RECORDING_FAILED' };
+    }
+
+    const balance = await storage.getBudgetBalance(payer, getSolanaCluster(), paidRequirement.token);
+    return {
+      status: 'confirmed',
+      result: {
+        payer,
+        newBudget: (balance ? balance.amount : 0) / Math.pow(10, paidRequirement.decimals),
+        depositAmount: confirmation.amount,
+        token: paidRequirement.token,
+        symbol: paidRequirement.symbol
+      }
+    };
+  }
+}
+
+export const paymentConfirmationWorker = new PaymentConfirmationWorker();
@@ -0,0 +1,166 @@
+// payouts.ts - budget withdrawals and the pluggable signer that pays them out
+import { budgetLogger } from './logger';
+import { storage } from './storage';
+import { TransferRecord } from './types';
+
+export interface WithdrawalMessageFields {
+  walletAddress: string;
+  amount: number;
+  tokenMint: string;
+  nonce: string;
+  issuedAt: string;
+}
+
+/**
+ * The exact text a wallet signs to request a withdrawal. The client builds
+ * the same string from the fields it sends, so nothing has to be parsed back.
+ */
+export function buildWithdrawalMessage(fields: WithdrawalMessageFields): string {
+  return [
+    'Withdraw budget',
+    `Wallet: ${fields.walletAddress}`,
+    `Amount: ${fields.amount}`,
+    `Token: ${fields.tokenMint}`,
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`
+  ].join('\n');
+}
+
+export interface PayoutRequest {
+  withdrawalId: string;
+  recipient: string;
+  tokenMint: string;
+  amount: bigint;
+  decimals: number;
+  solanaCluster: 'mainnet-beta' | 'devnet';
+}
+
+export interface PayoutResult {
+  signature: string;
+}
+
+/**
+ * Sends withdrawal payouts from the platform wallet. A withdrawal interrupted
+ * by a restart is submitted again, so implementations must be idempotent on
+ * `withdrawalId`; they must only reject when nothing was sent, because a
+ * rejection returns the reserved amount to the reader's budget.
+ */
+export interface PayoutSigner {
+  sendPayout(request: PayoutRequest): Promise<PayoutResult>;
+}
+
+/**
+ * Payout signer that records payouts in memory instead of sending them,
+ * for running the withdrawal flow without a funded wallet
+ */
+export class LocalPayoutSigner implements PayoutSigner {
+  readonly payouts: PayoutRequest[] = [];
+  private failureReason: string | null = null;
+
+  /**
+   * Reject every payout with `reason` until called again with null
+   */
+  failWith(reason: string | null): void {
+    this.failureReason = reason;
+  }
+
+  async sendPayout(request: PayoutRequest): Promise<PayoutResult> {
+    if (this.failureReason) {
+      throw new Error(this.failureReason);
+    }
+
+    if (!this.payouts.some(payout => payout.withdrawalId === request.withdrawalId)) {
+      this.payouts.push(request);
+    }
+    return { signature: `local-payout-${request.withdrawalId}` };
+  }
+}
+
+let activePayoutSigner: PayoutSigner | null = null;
+
+/**
+ * Get the signer withdrawals are paid out with, or null if none is set.
+ * Without one, withdrawals stay pending with their amount reserved.
+ */
+export function getPayoutSigner(): PayoutSigner | null {
+  return activePayoutSigner;
+}
+
+/**
+ * Set the payout signer, e.g. a LocalPayoutSigner in tests
+ */
+export function setPayoutSigner(signer: PayoutSigner | null): void {
+  activePayoutSigner = signer;
+}
+
+/**
+ * Hands pending withdrawals to the payout signer and settles them with the
+ * result. Each withdrawal is only in flight once per process.
+ */
+export class PayoutProcessor {
+  private inFlight = new Set<string>();
+
+  async submit(withdrawal: TransferRecord): Promise<void> {
+    const signer = getPayoutSigner();
+    if (!signer) {
+      budgetLogger.warn({ withdrawalId: withdrawal.signature_id }, "No payout signer configured, withdrawal left pending");
+      return;
+    }
+
+    if (this.inFlight.has(withdrawal.signature_id)) {
+      return;
+    }
+    this.inFlight.add(withdrawal.signature_id);
+
+    try {
+      let result: PayoutResult;
+      try {
+        result = await signer.sendPayout({
+          withdrawalId: withdrawal.signature_id,
+          recipient: withdrawal.to,
+          tokenMint: withdrawal.token_mint_address,
+          amount: BigInt(withdrawal.amount),
+          decimals: withdrawal.decimal,
+          solanaCluster: withdrawal.solana_cluster
+        });
+      } catch (payoutError: any) {
+        budgetLogger.error({
+          error: payoutError.message,
+          withdrawalId: withdrawal.signature_id
+        }, "Withdrawal payout failed, returning amount to budget");
+
+        await storage.failWithdrawal(withdrawal.signature_id, payoutError.message);
+        return;
+      }
+
+      // If this fails the withdrawal stays pending and is resubmitted later,
+      // which the signer answers with the same payout
+      await storage.completeWithdrawal(withdrawal.signature_id, result.signature);
+      budgetLogger.info({
+        withdrawalId: withdrawal.signature_id,
+        payoutSignature: result.signature
+      }, "Withdrawal paid out");
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, withdrawalId: withdrawal.signature_id }, "Failed to settle withdrawal");
+    } finally {
+      this.inFlight.delete(withdrawal.signature_id);
+    }
+  }
+
+  /**
+   * Submit every pending withdrawal, e.g. those left over from before a restart
+   */
+  async processPending(): Promise<number> {
+    if (!getPayoutSigner()) {
+      return 0;
+    }
+
+    const pending = await storage.getPendingWithdrawals();
+    for (const withdrawal of pending) {
+      await this.submit(withdrawal);
+    }
+    return pending.length;
+  }
+}
+
+export const payoutProcessor = new PayoutProcessor();
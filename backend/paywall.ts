@@ -1,6 +1,4 @@
 // paywall.ts - x402 payment integration for CMS
-import { createSolanaRpc, address, Signature, Account } from '@solana/kit';
-import { fetchMint, Mint } from '@solana-program/token';
 import { randomUUID } from 'crypto';
 import { paymentLogger, budgetLogger } from './logger';
 import {
@@ -9,6 +7,7 @@ import {
   BudgetPaywallOptions,
   X402PaywallOptions,
   SolanaTransactionResponse,
+  TransactionInstruction,
   ParsedInstruction,
   TransactionVerificationContext,
   TransactionMetadata,
@@ -17,21 +16,35 @@ import {
   PaymentValidationContext,
   PaymentVerificationError,
   BudgetOperationError,
-  ValidationError
+  ValidationError,
+  InvoiceRecord,
+  InvoiceOption,
+  PaymentConfirmationRecord,
+  PaymentConfirmationKind,
+  AgentKeyRecord,
+  SpendingLimitType
 } from './types';
 import { storage } from './storage';
 import { validateSolanaAddress, validateTransactionSignature, validateReference } from './validation';
 import { Request, Response, NextFunction } from 'express';
-import { config, getSolanaRpcUrl } from './config';
+import { config } from './config';
+import { TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { SolanaRpcClient, RpcCommitment, getRpcClient, TOKEN_2022_PROGRAM_ADDRESS } from './solana-rpc';
+import { PaymentRequirement, getPaymentRequirements } from './accepted-tokens';
+import { describeRecipients, getRecipientAmounts, splitRevenue, withRevenueSplits } from './revenue-splits';
+import ArticleService, { Article } from './article-service';
+import { issueAccessToken, verifyAccessToken, verifySessionToken } from './access-token';
+import { hashAgentKey, isAgentKeyActive, isArticleAllowed } from './agent-keys';
 
 interface ExtendedRequest extends Request {
   x402_payment_method?: string;
+  x402_article_price?: number;
+  x402_transfer_id?: string;
+  x402_access_token?: string;
+  cms_article?: Article;
   cms_access_granted?: boolean;
 }
 
-// Export RPC instance using configuration
-export const rpc = createSolanaRpc(getSolanaRpcUrl());
-
 /**
  * Initialize storage service
  */
@@ -54,155 +67,186 @@ function extractMemo(memoInstruction: ParsedInstruction | undefined): string | n
   return null;
 }
 
+const TOKEN_PROGRAMS = new Set<string>([TOKEN_PROGRAM_ADDRESS, TOKEN_2022_PROGRAM_ADDRESS]);
+const TOKEN_TRANSFER_TYPES = new Set(['transfer', 'transferChecked', 'transferCheckedWithFee']);
+
+/**
+ * A token transfer instruction from a jsonParsed transaction, with the
+ * destination account's owner and mint resolved from the token balances
+ */
+interface ParsedTokenTransfer {
+  programId: string;
+  source: string;
+  destination: string;
+  authority: string;
+  amount: bigint;
+  fee: bigint;
+  mint: string | null;
+  sourceOwner: string | null;
+  destinationOwner: string | null;
+}
+
+/**
+ * Collect every `transfer`, `transferChecked` and `transferCheckedWithFee`
+ * instruction of the Token and Token-2022 programs, top-level and inner
+ */
+function getTokenTransfers(tx: SolanaTransactionResponse): ParsedTokenTransfer[] {
+  const accountKeys = tx.transaction.message.accountKeys || [];
+  const tokenBalances = [...(tx.meta?.postTokenBalances || []), ...(tx.meta?.preTokenBalances || [])];
+
+  const lookupAccount = (account: string) => {
+    const index = accountKeys.findIndex(key => key.pubkey === account);
+    return tokenBalances.find(balance => balance.accountIndex === index) || null;
+  };
+
+  const instructions: TransactionInstruction[] = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions || []).flatMap(inner => inner.instructions)
+  ];
+
+  return instructions
+    .filter(ix => TOKEN_PROGRAMS.has(ix.programId || '') && TOKEN_TRANSFER_TYPES.has(ix.parsed?.type) && ix.parsed.info)
+    .map(ix => {
+      const info = ix.parsed.info;
+      const sourceAccount = lookupAccount(info.source);
+      const destinationAccount = lookupAccount(info.destination);
+
+      return {
+        programId: ix.programId!,
+        source: info.source,
+        destination: info.destination,
+        authority: info.authority || info.multisigAuthority,
+        // transferChecked carries the amount as tokenAmount, plus the mint
+        amount: BigInt(info.amount ?? info.tokenAmount?.amount ?? 0),
+        fee: BigInt(info.feeAmount?.amount ?? 0),
+        mint: info.mint || destinationAccount?.mint || sourceAccount?.mint || null,
+        sourceOwner: sourceAccount?.owner || null,
+        destinationOwner: destinationAccount?.owner || null
+      };
+    });
+}
+
+/**
+ * What a wallet was paid in a transaction, per mint, in the smallest unit:
+ * token transfers into accounts it owns, net of transfer fees. Transfers
+ * between its own accounts are not counted.
+ */
+export function getReceivedAmounts(tx: SolanaTransactionResponse, recipientWallet: string): Map<string, bigint> {
+  const payments = getTokenTransfers(tx).filter(transfer =>
+    transfer.destinationOwner === recipientWallet && transfer.sourceOwner !== recipientWallet && transfer.mint
+  );
+  const received = new Map<string, bigint>();
+
+  for (const mint of new Set(payments.map(transfer => transfer.mint!))) {
+    const mintPayments = payments.filter(transfer => transfer.mint === mint);
+    let amount = mintPayments.reduce((total, transfer) => total + transfer.amount - transfer.fee, 0n);
+
+    // Token-2022 transfer fees are withheld in the destination account, as in verifyTransaction
+    if (mintPayments.some(transfer => transfer.programId === TOKEN_2022_PROGRAM_ADDRESS)) {
+      const credited = getCreditedAmount(tx, mintPayments.map(transfer => transfer.destination));
+      if (credited !== null && credited < amount) {
+        amount = credited;
+      }
+    }
+
+    received.set(mint, amount);
+  }
+
+  return received;
+}
+
+/**
+ * Balance change of the given token accounts, or null when the transaction
+ * carries no balances for one of them
+ */
+function getCreditedAmount(tx: SolanaTransactionResponse, accounts: string[]): bigint | null {
+  const accountKeys = tx.transaction.message.accountKeys || [];
+  let credited = 0n;
+
+  for (const account of new Set(accounts)) {
+    const index = accountKeys.findIndex(key => key.pubkey === account);
+    const post = tx.meta?.postTokenBalances?.find(balance => balance.accountIndex === index);
+    if (index < 0 || !post?.uiTokenAmount) {
+      return null;
+    }
+    const pre = tx.meta?.preTokenBalances?.find(balance => balance.accountIndex === index);
+    credited += BigInt(post.uiTokenAmount.amount) - BigInt(pre?.uiTokenAmount?.amount || "0");
+  }
+
+  return credited;
+}
+
 /**
- * Verify transaction for x402 payments
+ * Verify transaction for x402 payments. The payer may use any of the given
+ * payment requirements. Only token transfers into an account owned by the
+ * recipient, in an accepted mint and signed by the payer, are counted. A
+ * requirement split between payees must pay each of them their part.
+ * The transaction is looked up at each of `commitments` in turn.
  */
 export async function verifyTransaction(
   signature: string,
   reference: string,
-  requiredAmount: number,
-  splTokenMint: string,
-  recipientWallet: string
+  requirements: PaymentRequirement[],
+  recipientWallet: string,
+  expectedPayer?: string,
+  rpcClient: SolanaRpcClient = getRpcClient(),
+  commitments: RpcCommitment[] = ['finalized', 'confirmed']
 ): Promise<VerificationResult> {
   // Validate inputs
   if (!validateTransactionSignature(signature)) {
     const error = new ValidationError('Invalid transaction signature format');
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, code: 'INVALID_INPUT' };
   }
 
   if (!validateReference(reference)) {
     const error = new ValidationError('Invalid reference format (must be UUID)');
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, code: 'INVALID_INPUT' };
   }
 
-  if (!validateSolanaAddress(splTokenMint)) {
+  if (requirements.length === 0 || requirements.some(requirement => !validateSolanaAddress(requirement.token))) {
     const error = new ValidationError('Invalid SPL token mint address');
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, code: 'INVALID_INPUT' };
   }
 
   if (!validateSolanaAddress(recipientWallet)) {
     const error = new ValidationError('Invalid recipient wallet address');
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, code: 'INVALID_INPUT' };
+  }
+
+  if (expectedPayer && !validateSolanaAddress(expectedPayer)) {
+    const error = new ValidationError('Invalid payer public key');
+    return { success: false, error: error.message, code: 'INVALID_INPUT' };
   }
 
   const context: TransactionVerificationContext = {
     signature,
     reference,
-    expectedAmount: requiredAmount,
-    splToken: splTokenMint,
+    expectedAmounts: Object.fromEntries(requirements.map(requirement => [requirement.token, requirement.amount])),
     recipientWallet
   };
 
   try {
-    const rpcUrl = getSolanaRpcUrl();
-    paymentLogger.info({
-      signature,
-      commitment: 'finalized',
-      rpcUrl
-    }, "Fetching transaction from RPC");
-
-    const tx = await rpc.getTransaction(signature as Signature, {
-      commitment: 'finalized',
-      encoding: 'jsonParsed'
-    }).send();
+    // Prefer finalized; a transaction a few seconds old may only be confirmed yet
+    let tx: SolanaTransactionResponse | null = null;
+    for (const commitment of commitments) {
+      tx = await rpcClient.getTransaction(signature, commitment);
+      if (tx) {
+        break;
+      }
+    }
 
     paymentLogger.info({
       signature,
       transactionFound: !!tx,
-      hasError: tx?.meta?.err,
-      meta: tx?.meta
+      hasError: tx?.meta?.err
     }, "Transaction fetch result");
 
-    // If RPC call fails, try direct HTTP fetch as fallback
     if (!tx) {
-      paymentLogger.info({
-        signature,
-        rpcUrl
-      }, "RPC call failed, trying direct HTTP fetch");
-
-      // Try different commitment levels
-      const commitments = ['confirmed', 'finalized'];
-
-      for (const commitment of commitments) {
-        try {
-          paymentLogger.info({
-            signature,
-            commitment,
-            rpcUrl
-          }, "Trying direct HTTP fetch with commitment");
-
-          const response = await fetch(rpcUrl, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              jsonrpc: '2.0',
-              id: 1,
-              method: 'getTransaction',
-              params: [signature, { commitment, encoding: 'jsonParsed' }]
-            })
-          });
-
-          const result = await response.json() as any;
-          paymentLogger.info({
-            signature,
-            commitment,
-            directFetchSuccess: !!result.result,
-            result: result.result ? 'Transaction found' : 'Transaction not found',
-            httpStatus: response.status
-          }, "Direct HTTP fetch result");
-
-          if (result.result && !result.result.meta?.err) {
-            paymentLogger.info({
-              signature,
-              commitment
-            }, "Transaction verification successful via direct fetch");
-
-            // Extract amount from transaction properly
-            const preBalance = result.result.meta?.preTokenBalances?.find(
-              (b: any) => b.owner === recipientWallet && b.mint === splTokenMint
-            );
-            const postBalance = result.result.meta?.postTokenBalances?.find(
-              (b: any) => b.owner === recipientWallet && b.mint === splTokenMint
-            );
-
-            const preAmount = BigInt(preBalance?.uiTokenAmount?.amount || "0");
-            const postAmount = BigInt(postBalance?.uiTokenAmount?.amount || "0");
-            let amountReceived = postAmount - preAmount;
-
-            // For self-transfer transactions (budget deposits), extract from instruction
-            if (amountReceived === 0n && result.result.transaction?.message?.instructions) {
-              for (const instruction of result.result.transaction.message.instructions) {
-                if (instruction.parsed && instruction.parsed.type === 'transfer') {
-                  const transferAmount = instruction.parsed.info.amount;
-                  if (transferAmount) {
-                    amountReceived = BigInt(transferAmount);
-                    break;
-                  }
-                }
-              }
-            }
-
-            const mintAddress = address(splTokenMint);
-            const mintAccount: Account<Mint> = await fetchMint(rpc, mintAddress);
-
-            return {
-              success: true,
-              amountReceived: Number(amountReceived) / Math.pow(10, mintAccount.data.decimals),
-              amountReceivedSmallestUnit: amountReceived
-            };
-          }
-        } catch (fetchError: any) {
-          paymentLogger.error({
-            signature,
-            commitment,
-            error: fetchError.message
-          }, "Direct HTTP fetch failed for commitment");
-        }
-      }
+      throw new PaymentVerificationError("Transaction not found", context, 'TRANSACTION_NOT_FOUND');
     }
 
-    if (!tx || (tx.meta && tx.meta.err)) {
-      throw new PaymentVerificationError("Transaction failed or not found", context);
+    if (tx.meta && tx.meta.err) {
+      throw new PaymentVerificationError("Transaction failed on-chain", context, 'TRANSACTION_FAILED');
     }
 
     // Verify Memo (Reference)
@@ -218,80 +262,148 @@ export async function verifyTransaction(
     if (!isReferenceValid) {
       throw new PaymentVerificationError(
         `Invalid reference memo. Expected: ${reference}, Received: ${memoString}`,
-        context
+        context,
+        'REFERENCE_MISMATCH'
+      );
+    }
+
+    const transfers = getTokenTransfers(tx);
+    if (transfers.length === 0) {
+      throw new PaymentVerificationError("Transaction contains no token transfer", context, 'NO_TOKEN_TRANSFER');
+    }
+
+    const recipientWallets = new Set([
+      recipientWallet,
+      ...requirements.flatMap(requirement => (requirement.splits ?? []).map(split => split.wallet))
+    ]);
+    const toRecipient = transfers.filter(transfer => recipientWallets.has(transfer.destinationOwner ?? ''));
+    if (toRecipient.length === 0) {
+      throw new PaymentVerificationError(
+        "No token transfer is destined for an account owned by the recipient",
+        context,
+        'WRONG_DESTINATION'
       );
     }
 
-    // Verify Amount
-    const mintAddress = address(splTokenMint);
+    // Find which accepted mint was paid
+    const requirement = requirements.find(candidate => toRecipient.some(transfer => transfer.mint === candidate.token));
+    if (!requirement) {
+      throw new PaymentVerificationError(
+        `Transferred token is not accepted. Received: ${toRecipient.map(transfer => transfer.mint).join(', ')}`,
+        context,
+        'WRONG_MINT'
+      );
+    }
 
-    const mintAccount: Account<Mint> = await fetchMint(rpc, mintAddress);
-    const requiredAmountSmallestUnit = BigInt(
-      Math.floor(requiredAmount * Math.pow(10, mintAccount.data.decimals))
+    const expectedAmounts = getRecipientAmounts(requirement, recipientWallet);
+    const payments = toRecipient.filter(transfer =>
+      transfer.mint === requirement.token && expectedAmounts.has(transfer.destinationOwner!)
     );
+    if (payments.length === 0) {
+      throw new PaymentVerificationError(
+        "No token transfer is destined for an account owned by the recipient",
+        context,
+        'WRONG_DESTINATION'
+      );
+    }
+
+    if (payments.some(transfer => expectedAmounts.has(transfer.sourceOwner ?? ''))) {
+      throw new PaymentVerificationError("Transfers from the recipient to itself are not payments", context, 'SELF_TRANSFER');
+    }
 
-    const preBalance = tx.meta?.preTokenBalances?.find(
-      (b: any) => b.owner === recipientWallet && b.mint === splTokenMint
+    // Every payment must be authorized by a signer of the transaction, and
+    // by the wallet that claims to have paid when one is given
+    const signers = new Set(
+      (tx.transaction.message.accountKeys || []).filter(key => key.signer).map(key => key.pubkey)
     );
-    const postBalance = tx.meta?.postTokenBalances?.find(
-      (b: any) => b.owner === recipientWallet && b.mint === splTokenMint
+    const payer = payments[0].authority;
+    const signerMismatch = payments.find(transfer =>
+      transfer.authority !== payer ||
+      !signers.has(transfer.authority) ||
+      (expectedPayer && transfer.authority !== expectedPayer)
     );
+    if (signerMismatch) {
+      throw new PaymentVerificationError(
+        `Transfer was not signed by the payer. Expected: ${expectedPayer || payer}, Signed by: ${signerMismatch.authority}`,
+        context,
+        'SIGNER_MISMATCH'
+      );
+    }
 
-    const preAmount = BigInt(preBalance?.uiTokenAmount?.amount || "0");
-    const postAmount = BigInt(postBalance?.uiTokenAmount?.amount || "0");
-    let amountReceived = postAmount - preAmount;
-
-    // For self-transfer transactions (budget deposits), the balance difference will be 0
-    // In this case, we need to verify the transaction amount from the transfer instruction
-    if (amountReceived === 0n && tx.transaction.message.instructions) {
-      // Look for transfer instructions to extract the amount
-      for (const instruction of tx.transaction.message.instructions) {
-        if (instruction.parsed && instruction.parsed.type === 'transfer') {
-          const transferAmount = instruction.parsed.info.amount;
-          if (transferAmount) {
-            amountReceived = BigInt(transferAmount);
-            break;
-          }
+    let amountReceived = 0n;
+    let shortfall: { wallet: string; received: bigint; required: bigint } | null = null;
+    for (const [wallet, required] of expectedAmounts) {
+      const walletPayments = payments.filter(transfer => transfer.destinationOwner === wallet);
+      let received = walletPayments.reduce((total, transfer) => total + transfer.amount - transfer.fee, 0n);
+
+      // Token-2022 transfer fees are withheld in the destination account, even
+      // for a plain transferChecked, so count what the recipient was credited
+      if (walletPayments.some(transfer => transfer.programId === TOKEN_2022_PROGRAM_ADDRESS)) {
+        const credited = getCreditedAmount(tx, walletPayments.map(transfer => transfer.destination));
+        if (credited !== null && credited < received) {
+          received = credited;
         }
       }
+
+      if (received < required && !shortfall) {
+        shortfall = { wallet, received, required };
+      }
+      amountReceived += received;
     }
 
     const logContext: TransactionMetadata = {
-      preBalance: preAmount.toString(),
-      postBalance: postAmount.toString(),
+      payer,
       amountReceived: amountReceived.toString(),
-      amountRequired: requiredAmountSmallestUnit.toString()
+      amountRequired: requirement.amountSmallestUnit.toString()
     };
 
-    paymentLogger.info(logContext, "Token balance verification");
+    paymentLogger.info({ ...logContext, mint: requirement.token }, "Token transfer verification");
+
+    // Every payee must get their part, even if another was overpaid
+    if (shortfall && expectedAmounts.size > 1) {
+      throw new PaymentVerificationError(
+        `Incorrect token amount for ${shortfall.wallet}. Received: ${shortfall.received}, Required: ${shortfall.required}`,
+        context,
+        'AMOUNT_MISMATCH'
+      );
+    }
 
-    const isAmountValid = amountReceived === requiredAmountSmallestUnit;
+    const isAmountValid = amountReceived === requirement.amountSmallestUnit;
     if (!isAmountValid) {
-      if (amountReceived > requiredAmountSmallestUnit) {
+      if (amountReceived > requirement.amountSmallestUnit) {
         paymentLogger.info({
-          expectedAmount: requiredAmountSmallestUnit.toString(),
+          expectedAmount: requirement.amountSmallestUnit.toString(),
           receivedAmount: amountReceived.toString()
         }, "Amount received exceeds required, allowing budget deposit");
       } else {
         throw new PaymentVerificationError(
-          `Incorrect token amount. Received: ${amountReceived}, Required: ${requiredAmountSmallestUnit}`,
-          context
+          `Incorrect token amount. Received: ${amountReceived}, Required: ${requirement.amountSmallestUnit}`,
+          context,
+          'AMOUNT_MISMATCH'
         );
       }
     }
 
     return {
       success: true,
-      amountReceived: Number(amountReceived) / Math.pow(10, mintAccount.data.decimals),
+      payer,
+      amountReceived: Number(amountReceived) / Math.pow(10, requirement.decimals),
       amountReceivedSmallestUnit: amountReceived,
+      tokenMint: requirement.token,
+      decimals: requirement.decimals
     };
   } catch (error: any) {
     if (error instanceof PaymentVerificationError || error instanceof ValidationError) {
       paymentLogger.warn({
         error: error.message,
+        code: error instanceof PaymentVerificationError ? error.code : 'INVALID_INPUT',
         ...context
       }, "Transaction verification failed");
-      return { success: false, error: error.message };
+      return {
+        success: false,
+        error: error.message,
+        code: error instanceof PaymentVerificationError ? error.code : 'INVALID_INPUT'
+      };
     }
 
     const logContext: PaymentVerificationLog = {
@@ -300,105 +412,274 @@ export async function verifyTransaction(
     };
 
     paymentLogger.warn(logContext, "Unexpected transaction verification error");
-    return { success: false, error: error.message };
+    return { success: false, error: error.message, code: 'VERIFICATION_FAILED' };
+  }
+}
+
+/**
+ * Article resolution middleware - loads the requested article before any paywall
+ * runs, so unknown IDs get a 404 without charging and the paywalls can charge
+ * the article's own frontmatter price instead of the default article cost
+ */
+export const resolveArticle = (articleService: ArticleService) =>
+  async (req: ExtendedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const articleId = req.query.id as string || req.params.id;
+
+    if (!articleId) {
+      res.status(400).json({ error: "Article ID required" });
+      return;
+    }
+
+    const article = await articleService.getArticleMetadata(articleId);
+
+    if (!article) {
+      res.status(404).json({ error: "Article not found" });
+      return;
+    }
+
+    req.cms_article = article;
+    if (typeof article.price === 'number' && article.price > 0) {
+      req.x402_article_price = article.price;
+    }
+
+    return next();
+  };
+
+/**
+ * Access token middleware - accepts the short-lived token issued after a
+ * verified x402 payment (Authorization: Bearer <token>), so reloads and
+ * retries don't need the Solana signature to be re-verified
+ */
+export const accessTokenPaywall = (req: ExtendedRequest, res: Response, next: NextFunction): void => {
+  const authHeaderHeader = req.headers["authorization"];
+  const authHeader = Array.isArray(authHeaderHeader) ? authHeaderHeader[0] : authHeaderHeader;
+
+  if (!authHeader?.startsWith("Bearer ")) {
+    return next();
+  }
+
+  const articleId = req.query.id as string || req.params.id;
+  const claims = verifyAccessToken(authHeader.substring(7).trim());
+
+  if (!claims || claims.article !== articleId) {
+    paymentLogger.debug({ articleId }, "Access token invalid, expired or issued for another article");
+    return next();
+  }
+
+  const payerPubkeyHeader = req.headers["x402-payer-pubkey"];
+  const payerPubkey = Array.isArray(payerPubkeyHeader) ? payerPubkeyHeader[0] : payerPubkeyHeader;
+  if (payerPubkey && claims.sub !== 'anonymous' && claims.sub !== payerPubkey) {
+    paymentLogger.warn({ articleId, payer: payerPubkey }, "Access token presented by a different payer");
+    return next();
+  }
+
+  paymentLogger.info({ articleId, reference: claims.ref }, "Access granted by access token");
+  req.x402_payment_method = "token";
+  req.cms_access_granted = true;
+  return next();
+};
+
+const SPENDING_LIMIT_MESSAGES: Record<SpendingLimitType, string> = {
+  daily: "This purchase would exceed your daily spending limit",
+  monthly: "This purchase would exceed your monthly spending limit",
+  article: "Article price is above your per-article spending limit"
+};
+
+interface BudgetIdentity {
+  walletAddress: string;
+  agentKey: AgentKeyRecord | null;
+}
+
+interface BudgetIdentityRejection {
+  status: number;
+  error: string;
+  code: string;
+}
+
+/**
+ * Work out whose budget a request may spend: the key owner's for an
+ * `X-Agent-Key`, otherwise the signed-in wallet of an `x402-session-token`.
+ * Returns null when the request carries neither.
+ */
+async function resolveBudgetIdentity(req: Request): Promise<BudgetIdentity | BudgetIdentityRejection | null> {
+  const agentKeyHeader = req.headers["x-agent-key"];
+  const agentKeyValue = Array.isArray(agentKeyHeader) ? agentKeyHeader[0] : agentKeyHeader;
+  const sessionTokenHeader = req.headers["x402-session-token"];
+  const sessionToken = Array.isArray(sessionTokenHeader) ? sessionTokenHeader[0] : sessionTokenHeader;
+  const payerPubkeyHeader = req.headers["x402-payer-pubkey"];
+  const claimedPayer = Array.isArray(payerPubkeyHeader) ? payerPubkeyHeader[0] : payerPubkeyHeader;
+
+  let identity: BudgetIdentity;
+
+  if (agentKeyValue) {
+    const agentKey = await storage.getAgentKeyByHash(hashAgentKey(agentKeyValue));
+    if (!isAgentKeyActive(agentKey)) {
+      budgetLogger.warn("Budget paywall: Unknown, revoked or expired agent key");
+      return { status: 401, error: "Agent key is invalid, revoked or expired", code: 'AGENT_KEY_INVALID' };
+    }
+    identity = { walletAddress: agentKey.wallet_address, agentKey };
+  } else if (sessionToken) {
+    const session = verifySessionToken(sessionToken);
+    if (!session || !validateSolanaAddress(session.sub)) {
+      budgetLogger.warn("Budget paywall: Invalid or expired session token");
+      return { status: 401, error: "Session token is invalid or expired, sign in again", code: 'SESSION_INVALID' };
+    }
+    identity = { walletAddress: session.sub, agentKey: null };
+  } else {
+    if (claimedPayer) {
+      budgetLogger.debug({ payer: claimedPayer }, "Budget paywall: Payer header without session token, budget not used");
+    }
+    return null;
+  }
+
+  if (claimedPayer && claimedPayer !== identity.walletAddress) {
+    budgetLogger.warn({ payer: claimedPayer, wallet: identity.walletAddress }, "Budget paywall: Payer header does not match session");
+    return { status: 401, error: "x402-payer-pubkey does not match the signed-in wallet", code: 'SESSION_MISMATCH' };
   }
+
+  return identity;
 }
 
 /**
- * Budget paywall middleware - checks user's pre-paid budget first
+ * Budget paywall middleware - checks user's pre-paid budget first.
+ * The wallet is taken from the `x402-session-token` header (issued by
+ * /api/auth/verify) or an `X-Agent-Key`, so only its owner or their agents
+ * can spend its budget or use its entitlements; `x402-payer-pubkey` alone
+ * is not trusted. Agent keys are held to their tag filter, per-article
+ * price ceiling and spend cap, and every purchase to the reader's own
+ * spending limits.
  */
-export const budgetPaywall = ({ amount, splToken }: BudgetPaywallOptions) =>
+export const budgetPaywall = ({ amount: defaultAmount, acceptedTokens, rpcClient }: BudgetPaywallOptions) =>
   async (req: ExtendedRequest, res: Response, next: NextFunction): Promise<void> => {
-    const payerPubkeyHeader = req.headers["x402-payer-pubkey"];
-    const payerPubkey = Array.isArray(payerPubkeyHeader) ? payerPubkeyHeader[0] : payerPubkeyHeader;
+    const amount = req.x402_article_price ?? defaultAmount;
 
-    if (!payerPubkey) {
-      return next(); // No header, continue to normal 402 paywall
+    if (req.cms_access_granted) {
+      return next();
     }
 
-    // Validate payer pubkey
-    if (!validateSolanaAddress(payerPubkey)) {
-      budgetLogger.warn({ payer: payerPubkey }, "Invalid payer pubkey format");
+    let identity: BudgetIdentity | BudgetIdentityRejection | null;
+    try {
+      identity = await resolveBudgetIdentity(req);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Budget paywall: Failed to resolve budget owner");
       return next();
     }
 
+    if (!identity) {
+      return next(); // No session or agent key, continue to normal 402 paywall
+    }
+
+    if ('error' in identity) {
+      res.status(identity.status).json({ error: identity.error, code: identity.code });
+      return;
+    }
+
+    const { walletAddress: payerPubkey, agentKey } = identity;
+
     let requiredAmount: bigint = 0n;
     const context: BudgetOperationContext = { payer: payerPubkey };
+    const articleId = req.query.id as string || req.params.id;
+
+    if (agentKey && !isArticleAllowed(agentKey, req.cms_article?.tags ?? [])) {
+      budgetLogger.warn({ ...context, agentKeyId: agentKey.id, articleId }, "Budget paywall: Article tags not allowed for agent key");
+      res.status(403).json({ error: "This agent key may not be used for articles with these tags", code: 'AGENT_KEY_TAG_NOT_ALLOWED' });
+      return;
+    }
 
     try {
-      const mintAddress = address(splToken);
-      const mintAccount: Account<Mint> = await fetchMint(rpc, mintAddress);
-      requiredAmount = BigInt(Math.floor(amount * Math.pow(10, mintAccount.data.decimals)));
+      // Articles this wallet already paid for stay unlocked
+      if (articleId && await storage.hasEntitlement(payerPubkey, articleId)) {
+        budgetLogger.info({ ...context, articleId }, "Budget paywall: Wallet already owns article");
+
+        req.x402_payment_method = "entitled";
+        req.cms_access_granted = true;
+        return next();
+      }
+
+      if (agentKey && agentKey.max_article_price !== undefined && amount > agentKey.max_article_price) {
+        budgetLogger.warn({ ...context, agentKeyId: agentKey.id, articleId, amount }, "Budget paywall: Article price above agent key ceiling");
+        res.status(403).json({ error: "Article price is above this agent key's per-article ceiling", code: 'AGENT_KEY_PRICE_CEILING' });
+        return;
+      }
+
+      const requirements = await getPaymentRequirements(amount, acceptedTokens, rpcClient ?? getRpcClient());
+      const solanaCluster = process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet';
+
+      // Spend from the first accepted token the wallet has enough budget in
+      for (const requirement of requirements) {
+        requiredAmount = requirement.amountSmallestUnit;
 
-      // Try new SQLite payment processing first
-      try {
         const paymentContext = {
           walletAddress: payerPubkey,
-          solanaCluster: process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet',
-          tokenMintAddress: splToken,
-          amount: Number(requiredAmount),
-          articleId: req.query.id as string || req.params.id
+          solanaCluster,
+          tokenMintAddress: requirement.token,
+          amount: Number(requirement.amountSmallestUnit),
+          articleId,
+          agentKeyId: agentKey?.id,
+          price: amount,
+          splits: splitRevenue(requirement.amountSmallestUnit, req.cms_article?.payees ?? [], process.env.MY_WALLET_ADDRESS || '')
         };
 
         const paymentResult = await storage.processArticlePayment(paymentContext);
 
+        // Bought by a parallel request since the entitlement check above
+        if (paymentResult.reason === 'already_entitled') {
+          budgetLogger.info({ ...context, articleId }, "Budget paywall: Wallet already owns article");
+
+          req.x402_payment_method = "entitled";
+          req.cms_access_granted = true;
+          return next();
+        }
+
+        if (paymentResult.reason === 'agent_key_cap_exceeded') {
+          budgetLogger.warn({ ...context, agentKeyId: agentKey?.id, articleId }, "Budget paywall: Agent key spend cap reached");
+          res.status(403).json({ error: "This agent key has reached its spend cap", code: 'AGENT_KEY_CAP_EXCEEDED' });
+          return;
+        }
+
+        // The reader's own limits hold for every token, so stop here rather than offer a 402
+        if (paymentResult.reason === 'limit_exceeded') {
+          budgetLogger.warn({ ...context, articleId, limit: paymentResult.limit }, "Budget paywall: Spending limit reached");
+          res.status(403).json({
+            error: SPENDING_LIMIT_MESSAGES[paymentResult.limit as SpendingLimitType],
+            code: 'LIMIT_EXCEEDED',
+            reason: 'limit_exceeded',
+            limit: paymentResult.limit
+          });
+          return;
+        }
+
         if (paymentResult.success) {
           // Payment processed from budget successfully
           context.amountDeducted = requiredAmount.toString();
           context.remainingBudget = "0"; // Will be updated by SQLite storage
+          req.x402_transfer_id = paymentResult.signatureId;
 
           budgetLogger.info({
             ...context,
             method: "SQLite budget",
+            token: requirement.token,
             articleId: paymentContext.articleId
           }, "Budget paywall: Article payment processed via SQLite budget");
 
           req.x402_payment_method = "budget";
           req.cms_access_granted = true;
-          return next();
-        } else if (paymentResult.requiresOneTimePayment) {
-          // Insufficient budget, continue to one-time payment
-          context.requiredAmount = requiredAmount.toString();
-          context.availableBudget = "0";
-
-          budgetLogger.debug({
-            ...context,
-            method: "SQLite budget check",
-            articleId: paymentContext.articleId
-          }, "Budget paywall: Insufficient budget, requires one-time payment");
-
           return next();
         }
-      } catch (sqliteError: any) {
-        budgetLogger.warn({
-          error: sqliteError.message,
-          payer: payerPubkey,
-          amount: amount
-        }, "SQLite budget processing failed, falling back to legacy method");
       }
 
-      // Fallback to legacy budget method
-      const currentBudget = BigInt((await storage.getBudget(payerPubkey)));
-
-      if (currentBudget >= requiredAmount) {
-        // Budget sufficient!
-        const newBudget = currentBudget - requiredAmount;
-        context.amountDeducted = requiredAmount.toString();
-        context.remainingBudget = newBudget.toString();
+      // Insufficient budget in every accepted token, continue to one-time payment
+      context.requiredAmount = requirements
+        .map(requirement => `${requirement.amountSmallestUnit} ${requirement.symbol}`)
+        .join(', ');
 
-        budgetLogger.info(context, "Budget paywall: Using prepaid budget (legacy method)");
-        await storage.setBudget(payerPubkey, newBudget.toString());
-        req.x402_payment_method = "budget";
-        req.cms_access_granted = true;
-        return next();
-      } else {
-        // Insufficient budget
-        context.requiredAmount = requiredAmount.toString();
-        context.availableBudget = currentBudget.toString();
+      budgetLogger.debug({
+        ...context,
+        method: "SQLite budget check",
+        articleId
+      }, "Budget paywall: Insufficient budget, requires one-time payment");
 
-        budgetLogger.debug(context, "Budget paywall: Insufficient budget, falling back to payment");
-        return next();
-      }
+      return next();
     } catch (error: any) {
       const errorContext: BudgetOperationContext = {
         ...context,
@@ -415,18 +696,133 @@ export const budgetPaywall = ({ amount, splToken }: BudgetPaywallOptions) =>
     }
   };
 
+/**
+ * Payment confirmation as returned by the API
+ */
+export function describePaymentConfirmation(confirmation: PaymentConfirmationRecord) {
+  return {
+    reference: confirmation.reference,
+    signature: confirmation.signature_id,
+    kind: confirmation.kind,
+    status: confirmation.status,
+    articleId: confirmation.article_id ?? null,
+    payer: confirmation.payer_address ?? null,
+    amount: confirmation.amount,
+    checks: confirmation.checks,
+    error: confirmation.error ?? null,
+    code: confirmation.error_code ?? null,
+    result: confirmation.result ?? null,
+    expiresAt: new Date(confirmation.expires_at * 1000).toISOString(),
+    createdAt: new Date(confirmation.created_at * 1000).toISOString(),
+    updatedAt: new Date(confirmation.updated_at * 1000).toISOString(),
+    statusUrl: `/api/payments/${confirmation.reference}`
+  };
+}
+
+/**
+ * A payment requirement as frozen into an invoice or a queued confirmation
+ */
+export function toInvoiceOption(requirement: PaymentRequirement): InvoiceOption {
+  return {
+    token: requirement.token,
+    symbol: requirement.symbol,
+    decimals: requirement.decimals,
+    amount: requirement.amount,
+    amountSmallestUnit: requirement.amountSmallestUnit.toString(),
+    splits: requirement.splits
+  };
+}
+
+export function fromInvoiceOption(option: InvoiceOption): PaymentRequirement {
+  return {
+    ...option,
+    amountSmallestUnit: BigInt(option.amountSmallestUnit)
+  };
+}
+
+/**
+ * Queue a payment proof whose transaction is not on chain yet, so it is
+ * confirmed in the background instead of rejected. Returns the queued
+ * confirmation, or the one the reference already had.
+ */
+export async function queuePaymentConfirmation(fields: {
+  reference: string;
+  signature: string;
+  kind: PaymentConfirmationKind;
+  payer?: string;
+  articleId?: string;
+  recipientWallet: string;
+  amount: number;
+  requirements: PaymentRequirement[];
+}): Promise<PaymentConfirmationRecord> {
+  const now = Math.floor(Date.now() / 1000);
+  const options: InvoiceOption[] = fields.requirements.map(toInvoiceOption);
+
+  const queued = await storage.createPaymentConfirmation({
+    reference: fields.reference,
+    signature_id: fields.signature,
+    kind: fields.kind,
+    payer_address: fields.payer,
+    article_id: fields.articleId,
+    recipient_wallet: fields.recipientWallet,
+    amount: fields.amount,
+    options,
+    next_check_at: now + config.paymentConfirmationRetryBaseDelay,
+    expires_at: now + config.paymentConfirmationTtl
+  });
+
+  if (queued) {
+    paymentLogger.info({
+      signature: fields.signature,
+      reference: fields.reference,
+      kind: fields.kind
+    }, "Transaction not on chain yet - queued for confirmation");
+  }
+
+  return (await storage.getPaymentConfirmation(fields.reference))!;
+}
+
+/**
+ * Check that a payment proof's reference belongs to an open invoice issued
+ * for this article and recipient. Returns the reason it doesn't, or null.
+ */
+function findInvoiceError(invoice: InvoiceRecord | null, articleId: string, recipientWallet: string): string | null {
+  if (!invoice) {
+    return "Unknown payment reference";
+  }
+  if (invoice.status !== 'pending') {
+    return `Invoice is already ${invoice.status}`;
+  }
+  if (invoice.expires_at <= Math.floor(Date.now() / 1000)) {
+    return "Invoice has expired";
+  }
+  if (invoice.article_id !== articleId) {
+    return "Invoice was issued for a different article";
+  }
+  if (invoice.recipient_wallet !== recipientWallet) {
+    return "Invoice was issued for a different recipient";
+  }
+  return null;
+}
+
 /**
  * x402 paywall middleware - fallback when budget is insufficient
  */
-export function x402Paywall({ amount, splToken, recipientWallet }: X402PaywallOptions) {
+export function x402Paywall({ amount: defaultAmount, acceptedTokens, recipientWallet, rpcClient }: X402PaywallOptions) {
   return async (req: ExtendedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const amount = req.x402_article_price ?? defaultAmount;
+    const acceptedMints = acceptedTokens.map(token => token.mint);
     try {
-      if (req.x402_payment_method === "budget") {
+      if (req.cms_access_granted) {
         return next();
       }
 
-      const MINT_ADDRESS = address(splToken.trim());
-      const RECIPIENT_ADDRESS = address(recipientWallet.trim());
+      const client = rpcClient ?? getRpcClient();
+      const articleId = req.cms_article?.id ?? (req.query.id as string || req.params.id);
+      if (!articleId) {
+        res.status(400).json({ error: "Article ID required" });
+        return;
+      }
 
       const authHeaderHeader = req.headers["authorization"];
       const authHeader = Array.isArray(authHeaderHeader) ? authHeaderHeader[0] : authHeaderHeader;
@@ -436,78 +832,177 @@ export function x402Paywall({ amount, splToken, recipientWallet }: X402PaywallOp
       const reference = req.query.reference ? req.query.reference.toString() : null;
 
       if (signature && reference) {
+        // The wallet claiming the payment (CDP Embedded Wallets send it) must have signed it
+        const payerPubkeyHeader = req.headers["x402-payer-pubkey"];
+        const claimedPayer = Array.isArray(payerPubkeyHeader) ? payerPubkeyHeader[0] : payerPubkeyHeader;
+
+        // A proof that was queued for confirmation is settled by the
+        // confirmation worker, which records the payment once finalized
+        const confirmation = await storage.getPaymentConfirmation(reference);
+        if (confirmation) {
+          if (confirmation.kind !== 'article' || confirmation.signature_id !== signature || confirmation.article_id !== articleId) {
+            res.status(401).json({ error: "Invalid payment: reference belongs to another payment" });
+            return;
+          }
+
+          if (confirmation.status === 'pending') {
+            res.status(202).json(describePaymentConfirmation(confirmation));
+            return;
+          }
+
+          if (confirmation.status !== 'confirmed') {
+            res.status(401).json({
+              error: `Invalid payment: ${confirmation.error || `Payment ${confirmation.status}`}`,
+              code: confirmation.error_code
+            });
+            return;
+          }
+
+          const confirmedPayer = confirmation.result?.payer as string;
+          if (claimedPayer && claimedPayer !== confirmedPayer) {
+            res.status(401).json({ error: "Invalid payment: Transfer was not signed by the payer", code: 'SIGNER_MISMATCH' });
+            return;
+          }
+
+          // Only the first request presenting the confirmed proof gets access
+          if (!await storage.transitionInvoice(reference, 'paid', 'consumed')) {
+            res.status(401).json({ error: "Payment already claimed (replay attack)" });
+            return;
+          }
+
+          req.x402_transfer_id = signature;
+          req.x402_access_token = issueAccessToken({
+            articleId,
+            payer: confirmedPayer,
+            reference
+          });
+
+          paymentLogger.info({ signature, reference }, "Confirmed payment claimed - access granted");
+          req.x402_payment_method = "onetime";
+          req.cms_access_granted = true;
+          return next();
+        }
+
         const refKey = `ref_${reference}`;
-        if (await storage.hasReference(refKey)) {
+        if (await storage.hasReference(refKey) || await storage.isSignatureUsed(signature)) {
           res.status(401).json({ error: "Payment already claimed (replay attack)" });
           return;
         }
 
+        // Only references issued by this server can be paid, and only for
+        // the article, amount and recipient they were issued for
+        const invoice = await storage.getInvoice(reference);
+        const invoiceError = findInvoiceError(invoice, articleId, recipientWallet.trim());
+        if (!invoice || invoiceError) {
+          paymentLogger.warn({
+            error: invoiceError,
+            signature,
+            reference,
+            articleId
+          }, "Payment proof does not match an open invoice");
+          res.status(401).json({ error: `Invalid payment: ${invoiceError}` });
+          return;
+        }
+
+        const requirements: PaymentRequirement[] = invoice.options.map(fromInvoiceOption);
+
         paymentLogger.info({
           signature,
           reference,
           amount,
-          splToken: splToken.trim(),
+          acceptedTokens: acceptedMints,
           recipient: recipientWallet.trim()
         }, "Verifying x402 payment transaction");
 
         const verification = await verifyTransaction(
           signature,
           reference,
-          amount,
-          splToken.trim(),
-          recipientWallet.trim()
+          requirements,
+          recipientWallet.trim(),
+          claimedPayer,
+          client
         );
 
-        const mintAccount: Account<Mint> = await fetchMint(rpc, MINT_ADDRESS);
-        const requiredAmountSmallestUnit = BigInt(Math.floor(amount * Math.pow(10, mintAccount.data.decimals)));
+        const paidRequirement = requirements.find(requirement => requirement.token === verification.tokenMint);
+        const requiredAmountSmallestUnit = paidRequirement?.amountSmallestUnit;
+
+        if (verification.success && paidRequirement && verification.amountReceivedSmallestUnit === requiredAmountSmallestUnit) {
+          // Claiming is atomic, so only one of several concurrent retries gets through
+          const claimed = await storage.transitionInvoice(reference, 'pending', 'paid', {
+            signatureId: signature,
+            tokenMintAddress: paidRequirement.token
+          });
+          if (!claimed || !await storage.addReference(refKey, { ex: 300, signature })) {
+            res.status(401).json({ error: "Payment already claimed (replay attack)" });
+            return;
+          }
 
-        if (verification.success && verification.amountReceivedSmallestUnit === requiredAmountSmallestUnit) {
-          await storage.addReference(refKey, { ex: 300 });
+          const fromAddress = verification.payer!;
 
           // Record one-time article payment in SQLite if available
           try {
-            const articleId = req.query.id as string || req.params.id;
-            if (articleId) {
-              // Extract the from address from request headers (CDP Embedded Wallets)
-              const payerPubkeyHeader = req.headers["x402-payer-pubkey"];
-              const fromAddress = Array.isArray(payerPubkeyHeader) ? payerPubkeyHeader[0] : payerPubkeyHeader;
-
-              await storage.processOneTimeArticlePayment(
-                signature,
-                fromAddress,
-                recipientWallet.trim(),
-                process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet',
-                Number(requiredAmountSmallestUnit),
-                mintAccount.data.decimals,
-                splToken.trim(),
-                splToken.trim(),
-                articleId,
-                reference
-              );
-            }
+            await storage.processOneTimeArticlePayment(
+              signature,
+              fromAddress,
+              recipientWallet.trim(),
+              process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet',
+              Number(paidRequirement.amountSmallestUnit),
+              paidRequirement.decimals,
+              paidRequirement.symbol,
+              paidRequirement.token,
+              articleId,
+              reference,
+              paidRequirement.splits
+            );
+            req.x402_transfer_id = signature;
           } catch (sqliteError: any) {
             paymentLogger.warn({
               error: sqliteError.message,
               signature,
-              articleId: req.query.id as string || req.params.id
+              articleId
             }, "Failed to record one-time payment in SQLite");
           }
 
+          req.x402_access_token = issueAccessToken({
+            articleId,
+            payer: fromAddress,
+            reference
+          });
+          await storage.transitionInvoice(reference, 'paid', 'consumed');
+
           paymentLogger.info({
             signature,
             reference,
+            token: paidRequirement.token,
             amountReceived: verification.amountReceivedSmallestUnit?.toString()
           }, "Payment verification successful - access granted");
           req.x402_payment_method = "onetime";
           req.cms_access_granted = true;
           return next();
+        } else if (verification.code === 'TRANSACTION_NOT_FOUND') {
+          // Not on chain yet: confirm it in the background rather than make
+          // the reader pay again
+          const queued = await queuePaymentConfirmation({
+            reference,
+            signature,
+            kind: 'article',
+            payer: claimedPayer,
+            articleId,
+            recipientWallet: recipientWallet.trim(),
+            amount: invoice.amount,
+            requirements
+          });
+          res.status(202).json(describePaymentConfirmation(queued));
+          return;
         } else {
           let errorMsg = verification.error || "Unknown verification error";
+          let code = verification.code || 'VERIFICATION_FAILED';
 
           // Only check amount mismatch if we actually received an amount
           if (typeof verification.amountReceivedSmallestUnit !== 'undefined') {
             if (verification.amountReceivedSmallestUnit !== requiredAmountSmallestUnit) {
               errorMsg = `Incorrect token amount. Received: ${verification.amountReceivedSmallestUnit}, Required: ${requiredAmountSmallestUnit}`;
+              code = 'AMOUNT_MISMATCH';
             }
           } else {
             // If we don't have amount information, it's likely a validation error
@@ -516,33 +1011,67 @@ export function x402Paywall({ amount, splToken, recipientWallet }: X402PaywallOp
 
           paymentLogger.warn({
             error: errorMsg,
+            code,
             verificationResult: verification,
             signature,
             reference
           }, "Payment verification failed");
 
-          res.status(401).json({ error: `Invalid payment: ${errorMsg}` });
+          res.status(401).json({ error: `Invalid payment: ${errorMsg}`, code });
           return;
         }
       }
 
+      // Each option is split between the article's payees and the platform
+      const requirements = withRevenueSplits(
+        await getPaymentRequirements(amount, acceptedTokens, client),
+        req.cms_article?.payees ?? [],
+        recipientWallet.trim()
+      );
       const newReference = randomUUID();
+      const expiresAt = Math.floor(Date.now() / 1000) + config.invoiceTtl;
+
+      await storage.createInvoice({
+        reference: newReference,
+        article_id: articleId,
+        amount,
+        token_mint_address: requirements[0].token,
+        recipient_wallet: recipientWallet.trim(),
+        options: requirements.map(toInvoiceOption),
+        expires_at: expiresAt
+      });
 
       paymentLogger.info({
         amount,
-        splToken: splToken.trim(),
+        acceptedTokens: acceptedMints,
         recipient: recipientWallet.trim(),
         generatedReference: newReference
       }, "No payment proof found - sending 402 challenge");
+
+      // The top-level amount/token stay the first option for single-token
+      // clients; every recipient listed must be paid its part in one transaction
+      const [primary] = requirements;
+      const primaryRecipients = describeRecipients(primary, recipientWallet.trim());
       const invoice: Invoice = {
         protocol: "x402",
-        recipientWallet: recipientWallet.trim(),
-        amount: amount,
-        token: splToken.trim(),
+        recipientWallet: primaryRecipients[0].wallet,
+        amount: primary.amount,
+        token: primary.token,
         reference: newReference,
+        expiresAt: new Date(expiresAt * 1000).toISOString(),
+        recipients: primaryRecipients,
+        accepts: requirements.map(requirement => ({
+          token: requirement.token,
+          symbol: requirement.symbol,
+          decimals: requirement.decimals,
+          amount: requirement.amount,
+          recipients: describeRecipients(requirement, recipientWallet.trim())
+        })),
         metadata: {
           service: config.paymentDescription,
-          description: `Access premium article content for ${amount} ${splToken}`
+          description: `Access premium article content for ${requirements
+            .map(requirement => `${requirement.amount} ${requirement.symbol}`)
+            .join(' or ')}`
         }
       };
 
@@ -552,7 +1081,7 @@ export function x402Paywall({ amount, splToken, recipientWallet }: X402PaywallOp
       paymentLogger.error({
         error: error.message,
         amount,
-        splToken: splToken.trim(),
+        acceptedTokens: acceptedMints,
         recipient: recipientWallet.trim()
       }, "Error in x402 paywall middleware");
       res.status(500).json({ error: `Internal server error: ${error.message}` });
@@ -561,6 +1090,39 @@ export function x402Paywall({ amount, splToken, recipientWallet }: X402PaywallOp
   };
 }
 
+/**
+ * Refund middleware - if the request was charged but the article could not be
+ * delivered (any 4xx/5xx response), record a compensating refund transfer
+ */
+export const refundOnFailure = (req: ExtendedRequest, res: Response, next: NextFunction): void => {
+  res.on('finish', () => {
+    const transferId = req.x402_transfer_id;
+    if (!transferId || res.statusCode < 400) {
+      return;
+    }
+
+    storage.refundTransfer(transferId, `Article delivery failed with status ${res.statusCode}`)
+      .then((refundId) => {
+        if (refundId) {
+          budgetLogger.info({
+            transferId,
+            refundId,
+            statusCode: res.statusCode
+          }, "Article payment refunded after failed delivery");
+        }
+      })
+      .catch((error: any) => {
+        budgetLogger.error({
+          error: error.message,
+          transferId,
+          statusCode: res.statusCode
+        }, "Failed to refund article payment after failed delivery");
+      });
+  });
+
+  return next();
+};
+
 /**
  * Middleware to check if access was granted by payment
  */
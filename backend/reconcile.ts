@@ -0,0 +1,61 @@
+// reconcile.ts - run one on-chain reconciliation of the transfers ledger
+//
+// Usage: npm run reconcile [-- --lookback <seconds>]
+// Exits with 0 when the ledger matches the chain, 2 when discrepancies were
+// found and 1 when the run failed.
+import 'dotenv/config';
+import { logger } from './logger';
+import { DEFAULT_SPL_TOKEN_MINT, getAcceptedTokens } from './accepted-tokens';
+import { describeDiscrepancy, describeReconciliationRun, reconciler } from './reconciliation';
+import { storage } from './storage';
+
+function parseLookback(args: string[]): number | undefined {
+  const index = args.indexOf('--lookback');
+  if (index < 0) {
+    return undefined;
+  }
+
+  const lookbackSeconds = Number(args[index + 1]);
+  if (!Number.isInteger(lookbackSeconds) || lookbackSeconds <= 0) {
+    throw new Error('--lookback must be a positive whole number of seconds');
+  }
+  return lookbackSeconds;
+}
+
+async function main(): Promise<number> {
+  const recipientWallet = process.env.MY_WALLET_ADDRESS;
+  if (!recipientWallet) {
+    throw new Error('MY_WALLET_ADDRESS is not set');
+  }
+
+  await storage.initialize();
+  try {
+    const run = await reconciler.run({
+      recipientWallet,
+      tokenMints: getAcceptedTokens(process.env.SPL_TOKEN_MINT || DEFAULT_SPL_TOKEN_MINT).map(token => token.mint),
+      lookbackSeconds: parseLookback(process.argv.slice(2))
+    });
+    const discrepancies = await storage.getReconciliationDiscrepancies(run.id);
+
+    console.log(JSON.stringify({
+      run: describeReconciliationRun(run),
+      discrepancies: discrepancies.map(describeDiscrepancy)
+    }, null, 2));
+
+    if (run.status === 'failed') {
+      return 1;
+    }
+    return discrepancies.length > 0 ? 2 : 0;
+  } finally {
+    await storage.close();
+  }
+}
+
+main()
+  .then(code => {
+    process.exitCode = code;
+  })
+  .catch((error: any) => {
+    logger.error({ error: error.message }, 'Reconciliation command failed');
+    process.exitCode = 1;
+  });
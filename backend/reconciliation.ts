@@ -0,0 +1,363 @@
+// reconciliation.ts - compare the transfers ledger with the recipient wallet's on-chain history
+import { findAssociatedTokenPda, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { address } from '@solana/kit';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from './config';
+import { paymentLogger } from './logger';
+import { getReceivedAmounts } from './paywall';
+import { SolanaRpcClient, TOKEN_2022_PROGRAM_ADDRESS, getRpcClient } from './solana-rpc';
+import { storage } from './storage';
+import { ReconciliationDiscrepancyRecord, ReconciliationRunRecord, TransferCursor, TransferRecord, TransferType } from './types';
+
+// Transfers that stand for a payment into the recipient wallet
+const RECONCILED_TYPES: TransferType[] = ['article-one-time', 'top-up'];
+
+const SIGNATURE_PAGE_SIZE = 1000;
+const MAX_SIGNATURE_PAGES = 50;
+const TRANSFER_PAGE_SIZE = 100;
+
+// Payments younger than this may still be settling on either side
+const SETTLE_SECONDS = 120;
+
+export interface ReconciliationOptions {
+  recipientWallet: string;
+  tokenMints: string[];
+  lookbackSeconds?: number;
+  rpcClient?: SolanaRpcClient;
+}
+
+type Discrepancy = Omit<ReconciliationDiscrepancyRecord, 'run_id' | 'created_at'>;
+
+function getSolanaCluster(): 'mainnet-beta' | 'devnet' {
+  return process.env.SOLANA_NETWORK === 'mainnet-beta' ? 'mainnet-beta' : 'devnet';
+}
+
+/**
+ * Reconciliation run as returned by the API
+ */
+export function describeReconciliationRun(run: ReconciliationRunRecord) {
+  return {
+    id: run.id,
+    walletAddress: run.wallet_address,
+    cluster: run.solana_cluster,
+    status: run.status,
+    windowStart: new Date(run.window_start * 1000).toISOString(),
+    windowEnd: new Date(run.window_end * 1000).toISOString(),
+    signaturesScanned: run.signatures_scanned,
+    transfersChecked: run.transfers_checked,
+    discrepancyCount: run.discrepancy_count,
+    error: run.error ?? null,
+    startedAt: new Date(run.started_at * 1000).toISOString(),
+    finishedAt: run.finished_at ? new Date(run.finished_at * 1000).toISOString() : null
+  };
+}
+
+export function describeDiscrepancy(discrepancy: ReconciliationDiscrepancyRecord) {
+  return {
+    kind: discrepancy.kind,
+    signature: discrepancy.signature_id,
+    type: discrepancy.type_tx ?? null,
+    token: discrepancy.token_mint_address ?? null,
+    ledgerAmount: discrepancy.ledger_amount ?? null,
+    chainAmount: discrepancy.chain_amount ?? null,
+    detail: discrepancy.detail
+  };
+}
+
+/**
+ * Checks that every one-time article payment and top-up in the transfers
+ * ledger reached the recipient wallet on chain, and that every payment the
+ * wallet received is in the ledger, with the same amount and mint. Token
+ * payments land in the wallet's associated token accounts, so those are
+ * scanned along with the wallet itself.
+ */
+export class Reconciler {
+  private running: Promise<ReconciliationRunRecord> | null = null;
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * Reconcile every RECONCILIATION_INTERVAL_MS; an interval of 0 disables
+   * the scheduled job
+   */
+  start(options: ReconciliationOptions, intervalMs: number = config.reconciliationIntervalMs): void {
+    if (this.timer || intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.run(options).catch((error: any) => {
+        paymentLogger.warn({ error: error.message }, "Scheduled reconciliation failed");
+      });
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one reconciliation and store its report. A run requested while
+   * another is in progress gets that run's result.
+   */
+  async run(options: ReconciliationOptions): Promise<ReconciliationRunRecord> {
+    if (!this.running) {
+      this.running = this.execute(options).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  private async execute(options: ReconciliationOptions): Promise<ReconciliationRunRecord> {
+    const rpcClient = options.rpcClient ?? getRpcClient();
+    const now = Math.floor(Date.now() / 1000);
+    const windowEnd = now - SETTLE_SECONDS;
+    const windowStart = now - (options.lookbackSeconds ?? config.reconciliationLookback);
+    const runId = `recon-${uuidv4()}`;
+
+    await storage.createReconciliationRun({
+      id: runId,
+      wallet_address: options.recipientWallet,
+      solana_cluster: getSolanaCluster(),
+      window_start: windowStart,
+      window_end: windowEnd
+    });
+
+    try {
+      const addresses = await this.getScannedAddresses(options.recipientWallet, options.tokenMints);
+      const signatures = await this.collectSignatures(addresses, windowStart, windowEnd, rpcClient);
+      const discrepancies: Discrepancy[] = [];
+      const seen = new Set<string>();
+
+      // Chain to ledger: every payment received must be recorded
+      for (const signature of signatures) {
+        seen.add(signature);
+        let received = await this.getReceived(signature, [options.recipientWallet], options, rpcClient);
+        if (!received || received.size === 0) {
+          continue;
+        }
+
+        const transfer = await storage.getTransfer(signature) as TransferRecord | null;
+        if (!transfer || !RECONCILED_TYPES.includes(transfer.type_tx)) {
+          for (const [mint, amount] of received) {
+            discrepancies.push({
+              kind: 'missing_in_ledger',
+              signature_id: signature,
+              token_mint_address: mint,
+              chain_amount: Number(amount),
+              detail: transfer
+                ? `Payment is recorded as a ${transfer.type_tx} transfer`
+                : 'Payment received on chain has no transfer in the ledger'
+            });
+          }
+          continue;
+        }
+
+        // A split payment also went to the payees' wallets
+        const paidWallets = await this.getPaidWallets(transfer, options.recipientWallet);
+        if (paidWallets.length > 1 || paidWallets[0] !== options.recipientWallet) {
+          received = await this.getReceived(signature, paidWallets, options, rpcClient) ?? received;
+        }
+
+        const mismatch = this.compare(transfer, received);
+        if (mismatch) {
+          discrepancies.push(mismatch);
+        }
+      }
+
+      // Ledger to chain: every recorded payment must have reached the wallet
+      let transfersChecked = 0;
+      let cursor: TransferCursor | undefined;
+      do {
+        const page = await storage.queryTransfers({
+          walletAddress: options.recipientWallet,
+          typeTx: RECONCILED_TYPES,
+          solanaCluster: getSolanaCluster(),
+          createdFrom: windowStart,
+          createdTo: windowEnd
+        }, TRANSFER_PAGE_SIZE, cursor);
+
+        for (const transfer of page.transfers) {
+          if (transfer.to !== options.recipientWallet) {
+            continue;
+          }
+          transfersChecked++;
+          if (seen.has(transfer.signature_id)) {
+            continue;
+          }
+
+          // Not among the scanned signatures, e.g. mined just before the
+          // window, so look the transaction up directly
+          const paidWallets = await this.getPaidWallets(transfer, options.recipientWallet);
+          const received = await this.getReceived(transfer.signature_id, paidWallets, options, rpcClient);
+          if (!received) {
+            discrepancies.push({
+              kind: 'missing_on_chain',
+              signature_id: transfer.signature_id,
+              type_tx: transfer.type_tx,
+              token_mint_address: transfer.token_mint_address,
+              ledger_amount: transfer.amount,
+              detail: 'Recorded transfer has no successful transaction on chain'
+            });
+            continue;
+          }
+
+          const mismatch = this.compare(transfer, received);
+          if (mismatch) {
+            discrepancies.push(mismatch);
+          }
+        }
+
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      await storage.completeReconciliationRun(runId, { signaturesScanned: signatures.length, transfersChecked }, discrepancies);
+
+      paymentLogger.info({
+        runId,
+        signaturesScanned: signatures.length,
+        transfersChecked,
+        discrepancies: discrepancies.length
+      }, "Reconciliation completed");
+    } catch (error: any) {
+      paymentLogger.error({ error: error.message, runId }, "Reconciliation failed");
+      await storage.failReconciliationRun(runId, error.message);
+    }
+
+    return (await storage.getReconciliationRun(runId))!;
+  }
+
+  /**
+   * The wallet and its associated token account for each mint, under both
+   * token programs
+   */
+  private async getScannedAddresses(recipientWallet: string, tokenMints: string[]): Promise<string[]> {
+    const addresses = [recipientWallet];
+
+    for (const mint of tokenMints) {
+      for (const tokenProgram of [TOKEN_PROGRAM_ADDRESS, TOKEN_2022_PROGRAM_ADDRESS]) {
+        const [tokenAccount] = await findAssociatedTokenPda({
+          owner: address(recipientWallet),
+          mint: address(mint),
+          tokenProgram: address(tokenProgram)
+        });
+        addresses.push(tokenAccount);
+      }
+    }
+
+    return addresses;
+  }
+
+  /**
+   * Page back through the finalized signatures of each address until the
+   * start of the window. Signatures inside the settling period are left for
+   * the next run.
+   */
+  private async collectSignatures(
+    addresses: string[],
+    windowStart: number,
+    windowEnd: number,
+    rpcClient: SolanaRpcClient
+  ): Promise<string[]> {
+    const signatures = new Set<string>();
+
+    for (const scannedAddress of addresses) {
+      let before: string | undefined;
+
+      for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+        const entries = await rpcClient.getSignaturesForAddress(scannedAddress, {
+          before,
+          limit: SIGNATURE_PAGE_SIZE,
+          commitment: 'finalized'
+        });
+
+        for (const entry of entries) {
+          const blockTime = entry.blockTime ?? windowEnd;
+          if (!entry.err && blockTime >= windowStart && blockTime <= windowEnd) {
+            signatures.add(entry.signature);
+          }
+        }
+
+        const last = entries[entries.length - 1];
+        if (entries.length < SIGNATURE_PAGE_SIZE || (last.blockTime !== null && last.blockTime < windowStart)) {
+          break;
+        }
+        before = last.signature;
+      }
+    }
+
+    return Array.from(signatures);
+  }
+
+  /**
+   * Wallets a transfer was paid into: the payees credited in its journal
+   * entry and the recipient wallet for the platform fee. Top-ups and
+   * payments without splits go to the recipient wallet alone.
+   */
+  private async getPaidWallets(transfer: TransferRecord, recipientWallet: string): Promise<string[]> {
+    const entry = transfer.type_tx === 'article-one-time'
+      ? await storage.getJournalEntry(transfer.type_tx, transfer.signature_id)
+      : null;
+    const wallets = new Set<string>();
+
+    for (const posting of entry?.postings ?? []) {
+      if (posting.direction !== 'credit') {
+        continue;
+      }
+      wallets.add(posting.account_type === 'creator_revenue' ? posting.owner : recipientWallet);
+    }
+
+    return wallets.size > 0 ? Array.from(wallets) : [recipientWallet];
+  }
+
+  /**
+   * What the wallets received together in accepted mints from a finalized,
+   * successful transaction, or null when there is no such transaction
+   */
+  private async getReceived(
+    signature: string,
+    wallets: string[],
+    options: ReconciliationOptions,
+    rpcClient: SolanaRpcClient
+  ): Promise<Map<string, bigint> | null> {
+    const tx = await rpcClient.getTransaction(signature, 'finalized');
+    if (!tx || tx.meta?.err) {
+      return null;
+    }
+
+    const received = new Map<string, bigint>();
+    for (const wallet of wallets) {
+      for (const [mint, amount] of getReceivedAmounts(tx, wallet)) {
+        if (options.tokenMints.includes(mint)) {
+          received.set(mint, (received.get(mint) ?? 0n) + amount);
+        }
+      }
+    }
+    return received;
+  }
+
+  private compare(transfer: TransferRecord, received: Map<string, bigint>): Discrepancy | null {
+    const chainAmount = received.get(transfer.token_mint_address);
+    if (chainAmount !== undefined && Number(chainAmount) === transfer.amount) {
+      return null;
+    }
+
+    return {
+      kind: 'amount_mismatch',
+      signature_id: transfer.signature_id,
+      type_tx: transfer.type_tx,
+      token_mint_address: transfer.token_mint_address,
+      ledger_amount: transfer.amount,
+      chain_amount: chainAmount === undefined ? 0 : Number(chainAmount),
+      detail: chainAmount === undefined
+        ? `No ${transfer.token_symbol} reached the wallet; received ${Array.from(received.keys()).join(', ') || 'nothing'}`
+        : `Ledger records ${transfer.amount}, chain shows ${chainAmount}`
+    };
+  }
+}
+
+export const reconciler = new Reconciler();
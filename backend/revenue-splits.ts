@@ -0,0 +1,144 @@
+// revenue-splits.ts - dividing article revenue between payees and the platform
+import { PaymentRequirement } from './accepted-tokens';
+import { config } from './config';
+import { PLATFORM_ACCOUNT_OWNER, PaymentRecipient, RevenueSplit } from './types';
+import { validateSolanaAddress } from './validation';
+
+const FULL_SHARE = 10_000n; // 100% in basis points
+
+/**
+ * A wallet paid a percentage of an article's revenue after the platform fee
+ */
+export interface Payee {
+  wallet: string;
+  share: number;
+}
+
+/**
+ * Percentage in basis points, or null when it has more than two decimals
+ */
+function toBasisPoints(percent: number): number | null {
+  const basisPoints = Math.round(percent * 1e6) / 1e4;
+  return Number.isInteger(basisPoints) ? basisPoints : null;
+}
+
+/**
+ * Payees declared in an article's frontmatter:
+ *
+ *   payees:
+ *     - wallet: <address>
+ *       share: 70
+ *     - wallet: <address>
+ *       share: 30
+ *
+ * Shares are percentages with at most two decimals and must add up to 100.
+ * Returns an empty list when the article declares none.
+ */
+export function parsePayees(value: unknown): Payee[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('payees must be a list of { wallet, share } entries');
+  }
+
+  const payees = value.map((entry: any) => {
+    const wallet = typeof entry?.wallet === 'string' ? entry.wallet.trim() : '';
+    const share = Number(entry?.share);
+
+    if (!validateSolanaAddress(wallet)) {
+      throw new Error(`Invalid payee wallet: ${entry?.wallet}`);
+    }
+    if (!(share > 0) || toBasisPoints(share) === null) {
+      throw new Error(`Payee ${wallet} must have a positive share with at most two decimals`);
+    }
+    return { wallet, share };
+  });
+
+  if (new Set(payees.map(payee => payee.wallet)).size !== payees.length) {
+    throw new Error('Each payee wallet may only be listed once');
+  }
+
+  const total = payees.reduce((sum, payee) => sum + toBasisPoints(payee.share)!, 0);
+  if (total !== Number(FULL_SHARE)) {
+    throw new Error(`Payee shares must add up to 100, not ${total / 100}`);
+  }
+
+  return payees;
+}
+
+/**
+ * Divide an article payment, in the token's smallest unit. The platform fee
+ * comes off first, then each payee gets their share of the rest; both are
+ * rounded down and what rounding leaves over goes to the first payee. An
+ * article without payees pays everything after the fee to the recipient
+ * wallet. Parts that round to nothing are left out.
+ */
+export function splitRevenue(
+  amount: bigint,
+  payees: Payee[],
+  recipientWallet: string,
+  feePercent: number = config.platformFeePercent
+): RevenueSplit[] {
+  const shares = payees.length > 0 ? payees : [{ wallet: recipientWallet, share: 100 }];
+  const fee = amount * BigInt(toBasisPoints(feePercent) ?? 0) / FULL_SHARE;
+  const creatorsPart = amount - fee;
+
+  const payeeAmounts = shares.map(payee => creatorsPart * BigInt(toBasisPoints(payee.share)!) / FULL_SHARE);
+  payeeAmounts[0] += creatorsPart - payeeAmounts.reduce((sum, payeeAmount) => sum + payeeAmount, 0n);
+
+  const splits: RevenueSplit[] = [
+    { account_type: 'platform_fee', owner: PLATFORM_ACCOUNT_OWNER, wallet: recipientWallet, amount: Number(fee) },
+    ...shares.map((payee, index): RevenueSplit => ({
+      account_type: 'creator_revenue',
+      owner: payee.wallet,
+      wallet: payee.wallet,
+      amount: Number(payeeAmounts[index])
+    }))
+  ];
+
+  return splits.filter(split => split.amount > 0);
+}
+
+/**
+ * Attach the split of each payment option for an article's payees
+ */
+export function withRevenueSplits(
+  requirements: PaymentRequirement[],
+  payees: Payee[],
+  recipientWallet: string
+): PaymentRequirement[] {
+  return requirements.map(requirement => ({
+    ...requirement,
+    splits: splitRevenue(requirement.amountSmallestUnit, payees, recipientWallet)
+  }));
+}
+
+/**
+ * What each wallet must receive for a payment option, in the smallest unit.
+ * An option without splits is paid in full to the recipient wallet.
+ */
+export function getRecipientAmounts(requirement: PaymentRequirement, recipientWallet: string): Map<string, bigint> {
+  const amounts = new Map<string, bigint>();
+  if (!requirement.splits || requirement.splits.length === 0) {
+    amounts.set(recipientWallet, requirement.amountSmallestUnit);
+    return amounts;
+  }
+
+  for (const split of requirement.splits) {
+    amounts.set(split.wallet, (amounts.get(split.wallet) ?? 0n) + BigInt(split.amount));
+  }
+  return amounts;
+}
+
+/**
+ * The recipients of a payment option as listed in a 402 invoice, in token
+ * units and in the smallest unit clients should transfer
+ */
+export function describeRecipients(requirement: PaymentRequirement, recipientWallet: string): PaymentRecipient[] {
+  return Array.from(getRecipientAmounts(requirement, recipientWallet), ([wallet, amount]) => ({
+    wallet,
+    amount: Number(amount) / Math.pow(10, requirement.decimals),
+    amountSmallestUnit: amount.toString()
+  }));
+}
@@ -0,0 +1,210 @@
+// rpc-endpoints.ts - Solana RPC endpoint pool with failover and health tracking
+import {
+  createDefaultRpcTransport,
+  isSolanaError,
+  SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR,
+  RpcTransport
+} from '@solana/kit';
+import { paymentLogger } from './logger';
+
+export interface RpcEndpointHealth {
+  url: string;
+  healthy: boolean;
+  active: boolean;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  cooldownUntil: string | null;
+}
+
+export interface RpcEndpointPoolOptions {
+  timeoutMs: number;
+  cooldownMs: number;
+}
+
+interface RpcEndpoint {
+  url: string;
+  transport: RpcTransport;
+  consecutiveFailures: number;
+  totalRequests: number;
+  totalFailures: number;
+  lastLatencyMs: number | null;
+  lastError: string | null;
+  lastFailureAt: number | null;
+  cooldownUntil: number;
+}
+
+class RpcTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`RPC request to ${redactRpcUrl(url)} timed out after ${timeoutMs}ms`);
+    this.name = 'RpcTimeoutError';
+  }
+}
+
+/**
+ * Strip credentials from an RPC URL before it is logged or reported.
+ * Providers like Helius and Triton put API keys in the query string or path.
+ */
+export function redactRpcUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname.length > 1 ? '/***' : '';
+    return `${parsed.protocol}//${parsed.host}${path}${parsed.search ? '?***' : ''}`;
+  } catch {
+    return '[invalid url]';
+  }
+}
+
+/**
+ * Timeouts, rate limiting, server errors and network failures move the
+ * request on to the next endpoint; other client errors are returned as-is
+ */
+function isRetryableError(error: unknown): boolean {
+  if (error instanceof RpcTimeoutError) {
+    return true;
+  }
+
+  if (isSolanaError(error, SOLANA_ERROR__RPC__TRANSPORT_HTTP_ERROR)) {
+    const statusCode = error.context.statusCode;
+    return statusCode === 429 || statusCode >= 500;
+  }
+
+  // fetch() rejects with a TypeError on DNS and connection failures
+  return error instanceof TypeError;
+}
+
+/**
+ * Pool of RPC endpoints tried in order. The first endpoint that is not
+ * cooling down serves each request; a retryable failure puts it on cooldown
+ * and the request rotates to the next one.
+ */
+export class RpcEndpointPool {
+  private endpoints: RpcEndpoint[];
+  private options: RpcEndpointPoolOptions;
+
+  constructor(urls: string[], options: RpcEndpointPoolOptions) {
+    if (urls.length === 0) {
+      throw new Error('At least one Solana RPC URL is required');
+    }
+
+    this.options = options;
+    this.endpoints = urls.map(url => ({
+      url,
+      transport: createDefaultRpcTransport({ url }),
+      consecutiveFailures: 0,
+      totalRequests: 0,
+      totalFailures: 0,
+      lastLatencyMs: null,
+      lastError: null,
+      lastFailureAt: null,
+      cooldownUntil: 0
+    }));
+  }
+
+  /**
+   * Build a kit transport that sends each request through the pool
+   */
+  createTransport(): RpcTransport {
+    return (<TResponse>(config: Parameters<RpcTransport>[0]) => this.send<TResponse>(config)) as RpcTransport;
+  }
+
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    const active = this.getCandidates()[0];
+
+    return this.endpoints.map(endpoint => ({
+      url: redactRpcUrl(endpoint.url),
+      healthy: endpoint.cooldownUntil <= now,
+      active: endpoint === active,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      totalRequests: endpoint.totalRequests,
+      totalFailures: endpoint.totalFailures,
+      lastLatencyMs: endpoint.lastLatencyMs,
+      lastError: endpoint.lastError,
+      lastFailureAt: endpoint.lastFailureAt ? new Date(endpoint.lastFailureAt).toISOString() : null,
+      cooldownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil).toISOString() : null
+    }));
+  }
+
+  private async send<TResponse>(config: Parameters<RpcTransport>[0]): Promise<TResponse> {
+    let lastError: unknown = null;
+
+    for (const endpoint of this.getCandidates()) {
+      const startedAt = Date.now();
+      endpoint.totalRequests += 1;
+
+      try {
+        const response = await this.sendWithTimeout<TResponse>(endpoint, config);
+        endpoint.consecutiveFailures = 0;
+        endpoint.cooldownUntil = 0;
+        endpoint.lastLatencyMs = Date.now() - startedAt;
+        return response;
+      } catch (error) {
+        lastError = error;
+
+        if (config.signal?.aborted || !isRetryableError(error)) {
+          throw error;
+        }
+
+        this.markFailure(endpoint, error);
+      }
+    }
+
+    throw lastError;
+  }
+
+  private async sendWithTimeout<TResponse>(endpoint: RpcEndpoint, config: Parameters<RpcTransport>[0]): Promise<TResponse> {
+    const controller = new AbortController();
+    const onCallerAbort = () => controller.abort(config.signal?.reason);
+    config.signal?.addEventListener('abort', onCallerAbort);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, this.options.timeoutMs);
+
+    try {
+      return await endpoint.transport<TResponse>({ payload: config.payload, signal: controller.signal });
+    } catch (error) {
+      throw timedOut ? new RpcTimeoutError(endpoint.url, this.options.timeoutMs) : error;
+    } finally {
+      clearTimeout(timer);
+      config.signal?.removeEventListener('abort', onCallerAbort);
+    }
+  }
+
+  private markFailure(endpoint: RpcEndpoint, error: unknown): void {
+    const now = Date.now();
+    const message = error instanceof Error ? error.message : String(error);
+
+    endpoint.consecutiveFailures += 1;
+    endpoint.totalFailures += 1;
+    endpoint.lastError = message;
+    endpoint.lastFailureAt = now;
+    endpoint.cooldownUntil = now + this.options.cooldownMs;
+
+    paymentLogger.warn({
+      rpcUrl: redactRpcUrl(endpoint.url),
+      error: message,
+      consecutiveFailures: endpoint.consecutiveFailures
+    }, "RPC endpoint failed, rotating to next endpoint");
+  }
+
+  /**
+   * Healthy endpoints in configured order, then the ones cooling down
+   * (soonest to recover first) as a last resort
+   */
+  private getCandidates(): RpcEndpoint[] {
+    const now = Date.now();
+    const healthy = this.endpoints.filter(endpoint => endpoint.cooldownUntil <= now);
+    const coolingDown = this.endpoints
+      .filter(endpoint => endpoint.cooldownUntil > now)
+      .sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+
+    return [...healthy, ...coolingDown];
+  }
+}
@@ -0,0 +1,26 @@
+// siws.ts - Sign-In With Solana messages for wallet sessions
+import { config } from './config';
+import { AuthNonceRecord } from './types';
+
+export const SIGN_IN_STATEMENT = 'Sign in to spend your prepaid article budget.';
+
+/**
+ * The Sign-In With Solana message a wallet signs to open a session, built
+ * from the stored nonce so the server never has to parse it back. Follows
+ * the SIWS text format (EIP-4361 with a Solana account).
+ */
+export function buildSignInMessage(walletAddress: string, nonce: AuthNonceRecord): string {
+  return [
+    `${nonce.domain} wants you to sign in with your Solana account:`,
+    walletAddress,
+    '',
+    SIGN_IN_STATEMENT,
+    '',
+    `URI: ${nonce.uri}`,
+    'Version: 1',
+    `Chain ID: ${config.solanaNetwork}`,
+    `Nonce: ${nonce.nonce}`,
+    `Issued At: ${new Date(nonce.created_at * 1000).toISOString()}`,
+    `Expiration Time: ${new Date(nonce.expires_at * 1000).toISOString()}`
+  ].join('\n');
+}
@@ -0,0 +1,307 @@
+// solana-rpc.ts - swappable Solana RPC access for payment verification
+import { createSolanaRpcFromTransport, address, Signature, RpcTransport } from '@solana/kit';
+import { fetchMint, findAssociatedTokenPda, TOKEN_PROGRAM_ADDRESS } from '@solana-program/token';
+import { paymentLogger } from './logger';
+import { config, getSolanaRpcUrls } from './config';
+import { SolanaTransactionResponse } from './types';
+import { RpcEndpointPool, RpcEndpointHealth } from './rpc-endpoints';
+
+export const TOKEN_2022_PROGRAM_ADDRESS = 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb';
+
+export type RpcCommitment = 'confirmed' | 'finalized';
+
+export interface MintInfo {
+  address: string;
+  decimals: number;
+}
+
+/**
+ * One entry of getSignaturesForAddress. `blockTime` is in Unix seconds and
+ * `err` is set for transactions that failed on chain.
+ */
+export interface SignatureInfo {
+  signature: string;
+  slot: number;
+  blockTime: number | null;
+  err: unknown;
+}
+
+export interface SignatureQuery {
+  before?: string;
+  limit?: number;
+  commitment?: RpcCommitment;
+}
+
+/**
+ * The subset of Solana RPC the paywall relies on. Everything that talks to
+ * the chain goes through this interface so it can be replaced offline.
+ */
+export interface SolanaRpcClient {
+  getTransaction(signature: string, commitment: RpcCommitment): Promise<SolanaTransactionResponse | null>;
+  getMint(mintAddress: string): Promise<MintInfo>;
+  /** Signatures involving an address, newest first, paged with `before` */
+  getSignaturesForAddress(address: string, query?: SignatureQuery): Promise<SignatureInfo[]>;
+  getEndpointHealth?(): RpcEndpointHealth[];
+}
+
+/**
+ * RPC client backed by @solana/kit, sending requests through an endpoint
+ * pool that fails over between the configured RPC URLs
+ */
+export class KitSolanaRpcClient implements SolanaRpcClient {
+  private pool: RpcEndpointPool;
+  private transport: RpcTransport;
+  private rpc: ReturnType<typeof createSolanaRpcFromTransport>;
+
+  constructor(rpcUrls: string[] = getSolanaRpcUrls()) {
+    this.pool = new RpcEndpointPool(rpcUrls, {
+      timeoutMs: config.rpcTimeoutMs,
+      cooldownMs: config.rpcCooldownMs
+    });
+    this.transport = this.pool.createTransport();
+    this.rpc = createSolanaRpcFromTransport(this.transport);
+  }
+
+  async getTransaction(signature: string, commitment: RpcCommitment): Promise<SolanaTransactionResponse | null> {
+    paymentLogger.info({
+      signature,
+      commitment
+    }, "Fetching transaction from RPC");
+
+    const tx = await this.rpc.getTransaction(signature as Signature, {
+      commitment,
+      encoding: 'jsonParsed',
+      maxSupportedTransactionVersion: 0
+    }).send();
+
+    if (tx) {
+      return tx as unknown as SolanaTransactionResponse;
+    }
+
+    // Some RPC nodes return null through the typed client for transactions a
+    // raw request still finds, so retry with a raw JSON-RPC request
+    paymentLogger.info({
+      signature,
+      commitment
+    }, "RPC call returned no transaction, trying raw JSON-RPC request");
+
+    const result = await this.transport<{ result?: SolanaTransactionResponse | null }>({
+      payload: {
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'getTransaction',
+        params: [signature, { commitment, encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 }]
+      }
+    });
+
+    paymentLogger.info({
+      signature,
+      commitment,
+      directFetchSuccess: !!result.result
+    }, "Raw JSON-RPC request result");
+
+    return result.result || null;
+  }
+
+  async getMint(mintAddress: string): Promise<MintInfo> {
+    const mintAccount = await fetchMint(this.rpc, address(mintAddress));
+    return { address: mintAddress, decimals: mintAccount.data.decimals };
+  }
+
+  async getSignaturesForAddress(walletAddress: string, query: SignatureQuery = {}): Promise<SignatureInfo[]> {
+    const signatures: readonly { signature: string; slot: bigint; blockTime: bigint | null; err: unknown }[] =
+      await this.rpc.getSignaturesForAddress(address(walletAddress), {
+        commitment: query.commitment ?? 'finalized',
+        ...(query.before ? { before: query.before as Signature } : {}),
+        ...(query.limit ? { limit: query.limit } : {})
+      }).send();
+
+    return signatures.map(entry => ({
+      signature: entry.signature,
+      slot: Number(entry.slot),
+      blockTime: entry.blockTime === null ? null : Number(entry.blockTime),
+      err: entry.err
+    }));
+  }
+
+  getEndpointHealth(): RpcEndpointHealth[] {
+    return this.pool.getHealth();
+  }
+}
+
+/**
+ * In-memory RPC client serving canned responses, for running payment
+ * flows without network access
+ */
+export class InMemorySolanaRpcClient implements SolanaRpcClient {
+  private transactions = new Map<string, { tx: SolanaTransactionResponse; commitment: RpcCommitment; slot: number; blockTime: number }>();
+  private mints = new Map<string, MintInfo>();
+  private nextSlot = 1;
+
+  addTransaction(
+    signature: string,
+    tx: SolanaTransactionResponse,
+    commitment: RpcCommitment = 'finalized',
+    blockTime: number = Math.floor(Date.now() / 1000)
+  ): void {
+    const existing = this.transactions.get(signature);
+    this.transactions.set(signature, { tx, commitment, slot: existing?.slot ?? this.nextSlot++, blockTime: existing?.blockTime ?? blockTime });
+  }
+
+  addMint(mintAddress: string, decimals: number): void {
+    this.mints.set(mintAddress, { address: mintAddress, decimals });
+  }
+
+  async getTransaction(signature: string, commitment: RpcCommitment): Promise<SolanaTransactionResponse | null> {
+    const entry = this.transactions.get(signature);
+    if (!entry) {
+      return null;
+    }
+
+    // A transaction only seen at 'confirmed' is not yet visible at 'finalized'
+    if (commitment === 'finalized' && entry.commitment === 'confirmed') {
+      return null;
+    }
+
+    return entry.tx;
+  }
+
+  async getMint(mintAddress: string): Promise<MintInfo> {
+    const mint = this.mints.get(mintAddress);
+    if (!mint) {
+      throw new Error(`Mint account not found: ${mintAddress}`);
+    }
+    return mint;
+  }
+
+  /**
+   * Transactions listing the address among their account keys, in reverse
+   * order of addition
+   */
+  async getSignaturesForAddress(walletAddress: string, query: SignatureQuery = {}): Promise<SignatureInfo[]> {
+    const matching = Array.from(this.transactions.entries())
+      .filter(([, entry]) => !(query.commitment !== 'confirmed' && entry.commitment === 'confirmed'))
+      .filter(([, entry]) => (entry.tx.transaction.message.accountKeys || []).some(key => key.pubkey === walletAddress))
+      .sort(([, a], [, b]) => b.slot - a.slot);
+
+    const start = query.before ? matching.findIndex(([signature]) => signature === query.before) + 1 : 0;
+    if (query.before && start === 0) {
+      return [];
+    }
+    return matching.slice(start, start + (query.limit ?? 1000)).map(([signature, entry]) => ({
+      signature,
+      slot: entry.slot,
+      blockTime: entry.blockTime,
+      err: entry.tx.meta?.err ?? null
+    }));
+  }
+
+  /**
+   * Build a successful SPL token transfer from the payer's associated token
+   * account to the recipient's, with a reference memo, shaped like a
+   * jsonParsed getTransaction response. `transferFee` is withheld from what
+   * the recipient is credited, as a Token-2022 transfer fee extension does.
+   */
+  static async createTokenTransfer(params: {
+    payer: string;
+    recipientWallet: string;
+    mint: string;
+    amount: bigint;
+    decimals: number;
+    reference: string;
+    recipientPreBalance?: bigint;
+    instruction?: 'transfer' | 'transferChecked';
+    tokenProgram?: string;
+    transferFee?: bigint;
+  }): Promise<SolanaTransactionResponse> {
+    const tokenProgram = params.tokenProgram ?? TOKEN_PROGRAM_ADDRESS;
+    const [payerAta] = await findAssociatedTokenPda({
+      owner: address(params.payer),
+      mint: address(params.mint),
+      tokenProgram: address(tokenProgram)
+    });
+    const [recipientAta] = await findAssociatedTokenPda({
+      owner: address(params.recipientWallet),
+      mint: address(params.mint),
+      tokenProgram: address(tokenProgram)
+    });
+
+    const preBalance = params.recipientPreBalance ?? 0n;
+    const postBalance = preBalance + params.amount - (params.transferFee ?? 0n);
+    const uiAmount = (value: bigint) => ({ amount: value.toString(), decimals: params.decimals });
+
+    const info = params.instruction === 'transferChecked'
+      ? {
+          source: payerAta,
+          mint: params.mint,
+          destination: recipientAta,
+          authority: params.payer,
+          tokenAmount: uiAmount(params.amount)
+        }
+      : {
+          source: payerAta,
+          destination: recipientAta,
+          authority: params.payer,
+          amount: params.amount.toString()
+        };
+
+    return {
+      transaction: {
+        message: {
+          accountKeys: [
+            { pubkey: params.payer, signer: true, writable: true, source: 'transaction' },
+            { pubkey: payerAta, signer: false, writable: true, source: 'transaction' },
+            { pubkey: recipientAta, signer: false, writable: true, source: 'transaction' },
+            { pubkey: tokenProgram, signer: false, writable: false, source: 'transaction' },
+            { pubkey: config.memoProgramId, signer: false, writable: false, source: 'transaction' }
+          ],
+          instructions: [
+            {
+              program: tokenProgram === TOKEN_2022_PROGRAM_ADDRESS ? 'spl-token-2022' : 'spl-token',
+              programId: tokenProgram,
+              parsed: {
+                type: params.instruction ?? 'transfer',
+                info
+              }
+            },
+            {
+              program: 'spl-memo',
+              programId: config.memoProgramId,
+              parsed: params.reference
+            }
+          ]
+        }
+      },
+      meta: {
+        err: null,
+        preTokenBalances: [
+          { accountIndex: 1, owner: params.payer, mint: params.mint, uiTokenAmount: uiAmount(params.amount) },
+          { accountIndex: 2, owner: params.recipientWallet, mint: params.mint, uiTokenAmount: uiAmount(preBalance) }
+        ],
+        postTokenBalances: [
+          { accountIndex: 1, owner: params.payer, mint: params.mint, uiTokenAmount: uiAmount(0n) },
+          { accountIndex: 2, owner: params.recipientWallet, mint: params.mint, uiTokenAmount: uiAmount(postBalance) }
+        ]
+      }
+    };
+  }
+}
+
+let activeRpcClient: SolanaRpcClient | null = null;
+
+/**
+ * Get the RPC client used when none is passed explicitly
+ */
+export function getRpcClient(): SolanaRpcClient {
+  if (!activeRpcClient) {
+    activeRpcClient = new KitSolanaRpcClient();
+  }
+  return activeRpcClient;
+}
+
+/**
+ * Replace the default RPC client, e.g. with an InMemorySolanaRpcClient in tests
+ */
+export function setRpcClient(client: SolanaRpcClient): void {
+  activeRpcClient = client;
+}
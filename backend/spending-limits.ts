@@ -0,0 +1,70 @@
+// spending-limits.ts - readers' daily, monthly and per-article budget limits
+import { SpendingLimitRecord, SpendingLimitType } from './types';
+
+function toMicroUnits(amount: number): number {
+  return Math.round(amount * 1_000_000);
+}
+
+export interface SpendingPeriod {
+  day: string;
+  month: string;
+}
+
+/**
+ * The UTC day (YYYY-MM-DD) and month (YYYY-MM) spending is counted in
+ */
+export function getSpendingPeriod(date: Date = new Date()): SpendingPeriod {
+  const iso = date.toISOString();
+  return { day: iso.slice(0, 10), month: iso.slice(0, 7) };
+}
+
+/**
+ * What was spent so far in the given period; counters from an earlier day
+ * or month no longer count
+ */
+export function getSpentInPeriod(limits: SpendingLimitRecord, period: SpendingPeriod): { today: number; thisMonth: number } {
+  return {
+    today: limits.day === period.day ? limits.day_spent : 0,
+    thisMonth: limits.month === period.month ? limits.month_spent : 0
+  };
+}
+
+/**
+ * The first limit a payment of `price` would break, or null if it fits.
+ * Amounts are compared in micro-units, like agent key caps.
+ */
+export function findExceededLimit(
+  limits: SpendingLimitRecord,
+  price: number,
+  period: SpendingPeriod
+): SpendingLimitType | null {
+  const spent = getSpentInPeriod(limits, period);
+
+  if (limits.max_article_price !== undefined && toMicroUnits(price) > toMicroUnits(limits.max_article_price)) {
+    return 'article';
+  }
+  if (limits.daily_limit !== undefined && toMicroUnits(spent.today + price) > toMicroUnits(limits.daily_limit)) {
+    return 'daily';
+  }
+  if (limits.monthly_limit !== undefined && toMicroUnits(spent.thisMonth + price) > toMicroUnits(limits.monthly_limit)) {
+    return 'monthly';
+  }
+  return null;
+}
+
+/**
+ * Spending limits as returned by the API, with this period's spending
+ */
+export function describeSpendingLimits(walletAddress: string, limits: SpendingLimitRecord | null) {
+  const spent = limits ? getSpentInPeriod(limits, getSpendingPeriod()) : { today: 0, thisMonth: 0 };
+
+  return {
+    walletAddress,
+    dailyLimit: limits?.daily_limit ?? null,
+    monthlyLimit: limits?.monthly_limit ?? null,
+    maxArticlePrice: limits?.max_article_price ?? null,
+    spentToday: spent.today,
+    spentThisMonth: spent.thisMonth,
+    updatedAt: limits ? new Date(limits.updated_at * 1000).toISOString() : null
+  };
+}
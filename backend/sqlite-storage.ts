@@ -1,21 +1,103 @@
 import sqlite3 from 'sqlite3';
+import { AsyncLocalStorage } from 'async_hooks';
 import { Database, open } from 'sqlite';
 import { budgetLogger } from './logger';
+import { config } from './config';
 import {
   TransferRecord,
+  AccountPostingRecord,
+  ArticleAccountTotal,
+  ArticleTransferTotal,
   BudgetBalance,
   DatabaseConnection,
   PaymentContext,
-  TopUpContext
+  TopUpContext,
+  TRANSFER_TYPES,
+  TransferStatus,
+  WithdrawalContext,
+  EntitlementRecord,
+  ReferenceOptions,
+  InvoiceRecord,
+  InvoiceStatus,
+  PaymentConfirmationRecord,
+  PaymentConfirmationStatus,
+  IdempotencyRecord,
+  AuthNonceRecord,
+  AgentKeyRecord,
+  SpendingLimitRecord,
+  SpendingLimitType,
+  ArticlePaymentResult,
+  ArticlePaymentFailureReason,
+  WebhookRecord,
+  WebhookDeliveryRecord,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  TransferFilter,
+  TransferCursor,
+  TransferPage,
+  TransferTotal,
+  ReconciliationRunRecord,
+  ReconciliationDiscrepancyRecord,
+  LEDGER_ACCOUNT_TYPES,
+  PLATFORM_ACCOUNT_OWNER,
+  JournalEntry,
+  JournalEntryKind,
+  JournalEntryRecord,
+  JournalEntryTotals,
+  LedgerAccountBalance,
+  LedgerAccountType,
+  LedgerPosting,
+  RevenueSplit
 } from './types';
+import { findExceededLimit, getSpendingPeriod } from './spending-limits';
+import { budgetEvents } from './budget-events';
 
 let db: Database | null = null;
 
+// Pricing-currency amounts are REAL columns; compare them in micro-units so
+// sums like 0.1 + 0.2 do not overshoot a cap of 0.3
+function toMicroUnits(amount: number): number {
+  return Math.round(amount * 1_000_000);
+}
+
+// budget_balances columns that cache the balance of a ledger account
+const BUDGET_BALANCE_COLUMNS: Partial<Record<LedgerAccountType, 'amount' | 'reserved_amount'>> = {
+  user_budget: 'amount',
+  user_reserved: 'reserved_amount'
+};
+
+function transfersTableSql(tableName: string): string {
+  const typeList = TRANSFER_TYPES.map(type => `'${type}'`).join(', ');
+
+  return `
+    CREATE TABLE IF NOT EXISTS ${tableName} (
+      signature_id TEXT PRIMARY KEY,
+      type_tx TEXT NOT NULL CHECK (type_tx IN (${typeList})),
+      type_tx_nodes TEXT,
+      from_address TEXT NOT NULL,
+      to_address TEXT NOT NULL,
+      solana_cluster TEXT NOT NULL CHECK (solana_cluster IN ('mainnet-beta', 'devnet')),
+      amount INTEGER NOT NULL,
+      decimal INTEGER NOT NULL,
+      token_symbol TEXT NOT NULL,
+      token_mint_address TEXT NOT NULL,
+      memo_value TEXT,
+      status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed')),
+      agent_key_id TEXT,
+      price REAL,
+      created_at INTEGER NOT NULL
+    )
+  `;
+}
+
 export class SQLiteStorageService {
   private dbPath: string;
   private initialized: boolean = false;
+  private transactionQueue: Promise<unknown> = Promise.resolve();
+  // Set while queued work holds the connection, so its own queries skip the queue
+  private queueContext = new AsyncLocalStorage<boolean>();
 
-  constructor(dbPath: string = './storage.sqlite') {
+  constructor(dbPath: string = config.databasePath) {
     this.dbPath = dbPath;
   }
 
@@ -30,6 +112,9 @@ export class SQLiteStorageService {
         driver: sqlite3.Database
       });
 
+      // Wait for other processes holding the write lock instead of failing
+      await db.exec('PRAGMA busy_timeout = 5000');
+
       await this.createTables();
       this.initialized = true;
       budgetLogger.info({ dbPath: this.dbPath }, "SQLite database initialized successfully");
@@ -43,35 +128,267 @@ export class SQLiteStorageService {
     if (!db) throw new Error('Database not initialized');
 
     // Create transfers table
+    await db.exec(transfersTableSql('transfers'));
+    await this.migrateTransfersTable();
+    await this.addColumnIfMissing('transfers', 'agent_key_id', 'TEXT');
+    await this.addColumnIfMissing('transfers', 'price', 'REAL');
+
+    // Create budget_balances table with unique constraint
     await db.exec(`
-      CREATE TABLE IF NOT EXISTS transfers (
-        signature_id TEXT PRIMARY KEY,
-        type_tx TEXT NOT NULL CHECK (type_tx IN ('top-up', 'article', 'article-one-time')),
-        type_tx_nodes TEXT,
-        from_address TEXT NOT NULL,
-        to_address TEXT NOT NULL,
+      CREATE TABLE IF NOT EXISTS budget_balances (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        wallet_address TEXT NOT NULL,
         solana_cluster TEXT NOT NULL CHECK (solana_cluster IN ('mainnet-beta', 'devnet')),
-        amount INTEGER NOT NULL,
+        amount INTEGER NOT NULL DEFAULT 0,
+        reserved_amount INTEGER NOT NULL DEFAULT 0,
         decimal INTEGER NOT NULL,
         token_symbol TEXT NOT NULL,
         token_mint_address TEXT NOT NULL,
-        memo_value TEXT,
-        created_at INTEGER NOT NULL
+        created_at INTEGER NOT NULL,
+        UNIQUE(wallet_address, solana_cluster, token_mint_address)
       )
     `);
+    await this.addColumnIfMissing('budget_balances', 'reserved_amount', 'INTEGER NOT NULL DEFAULT 0');
 
-    // Create budget_balances table with unique constraint
+    // Create double-entry ledger tables. budget_balances is kept in step with
+    // the user_budget and user_reserved accounts by postJournalEntry.
+    const accountTypeList = LEDGER_ACCOUNT_TYPES.map(type => `'${type}'`).join(', ');
     await db.exec(`
-      CREATE TABLE IF NOT EXISTS budget_balances (
+      CREATE TABLE IF NOT EXISTS ledger_accounts (
         id INTEGER PRIMARY KEY AUTOINCREMENT,
-        wallet_address TEXT NOT NULL,
+        account_type TEXT NOT NULL CHECK (account_type IN (${accountTypeList})),
+        owner TEXT NOT NULL,
         solana_cluster TEXT NOT NULL CHECK (solana_cluster IN ('mainnet-beta', 'devnet')),
-        amount INTEGER NOT NULL DEFAULT 0,
+        token_mint_address TEXT NOT NULL,
         decimal INTEGER NOT NULL,
         token_symbol TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        UNIQUE(account_type, owner, solana_cluster, token_mint_address)
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS journal_entries (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        kind TEXT NOT NULL,
+        signature_id TEXT,
+        solana_cluster TEXT NOT NULL,
         token_mint_address TEXT NOT NULL,
+        memo TEXT,
         created_at INTEGER NOT NULL,
-        UNIQUE(wallet_address, solana_cluster, token_mint_address)
+        UNIQUE(kind, signature_id)
+      )
+    `);
+
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS ledger_postings (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        entry_id INTEGER NOT NULL,
+        account_id INTEGER NOT NULL,
+        direction TEXT NOT NULL CHECK (direction IN ('debit', 'credit')),
+        amount INTEGER NOT NULL CHECK (amount > 0)
+      )
+    `);
+
+    // Create entitlements table - one row per article a wallet has paid for
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS entitlements (
+        wallet_address TEXT NOT NULL,
+        article_id TEXT NOT NULL,
+        signature_id TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (wallet_address, article_id)
+      )
+    `);
+
+    // Create payment_references table - invoice references and transaction
+    // signatures already claimed, kept until expires_at (NULL = forever)
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS payment_references (
+        ref_key TEXT PRIMARY KEY,
+        signature_id TEXT,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER
+      )
+    `);
+
+    // Create invoices table - one row per 402 challenge, binding the
+    // reference to the article, amount and recipient it was issued for
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS invoices (
+        reference TEXT PRIMARY KEY,
+        article_id TEXT NOT NULL,
+        amount REAL NOT NULL,
+        token_mint_address TEXT NOT NULL,
+        recipient_wallet TEXT NOT NULL,
+        options TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'consumed')),
+        signature_id TEXT,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create payment_confirmations table - proofs whose transaction was not
+    // on chain yet, checked again until finalized, failed or expired
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS payment_confirmations (
+        reference TEXT PRIMARY KEY,
+        signature_id TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('article', 'deposit')),
+        payer_address TEXT,
+        article_id TEXT,
+        recipient_wallet TEXT NOT NULL,
+        amount REAL NOT NULL,
+        options TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'failed', 'expired')),
+        checks INTEGER NOT NULL DEFAULT 0,
+        next_check_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        error TEXT,
+        error_code TEXT,
+        result TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create reconciliation_runs table - one row per comparison of the
+    // transfers ledger with the recipient wallet's on-chain history
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS reconciliation_runs (
+        id TEXT PRIMARY KEY,
+        wallet_address TEXT NOT NULL,
+        solana_cluster TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+        window_start INTEGER NOT NULL,
+        window_end INTEGER NOT NULL,
+        signatures_scanned INTEGER NOT NULL DEFAULT 0,
+        transfers_checked INTEGER NOT NULL DEFAULT 0,
+        discrepancy_count INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        started_at INTEGER NOT NULL,
+        finished_at INTEGER
+      )
+    `);
+
+    // Create reconciliation_discrepancies table - the report of each run
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS reconciliation_discrepancies (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        run_id TEXT NOT NULL,
+        kind TEXT NOT NULL CHECK (kind IN ('missing_in_ledger', 'missing_on_chain', 'amount_mismatch')),
+        signature_id TEXT NOT NULL,
+        type_tx TEXT,
+        token_mint_address TEXT,
+        ledger_amount INTEGER,
+        chain_amount INTEGER,
+        detail TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create idempotency_keys table - first response per Idempotency-Key
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        scope TEXT NOT NULL,
+        idempotency_key TEXT NOT NULL,
+        request_hash TEXT NOT NULL,
+        status TEXT NOT NULL CHECK (status IN ('in_progress', 'completed')),
+        response_status INTEGER,
+        response_body TEXT,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        PRIMARY KEY (scope, idempotency_key)
+      )
+    `);
+
+    // Create auth_nonces table - Sign-In With Solana nonces not yet used
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS auth_nonces (
+        nonce TEXT PRIMARY KEY,
+        domain TEXT NOT NULL,
+        uri TEXT NOT NULL,
+        expires_at INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create agent_keys table - delegated spending keys, stored as hashes
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS agent_keys (
+        id TEXT PRIMARY KEY,
+        key_hash TEXT NOT NULL UNIQUE,
+        wallet_address TEXT NOT NULL,
+        label TEXT,
+        spend_cap REAL NOT NULL,
+        spent REAL NOT NULL DEFAULT 0,
+        max_article_price REAL,
+        allowed_tags TEXT,
+        expires_at INTEGER NOT NULL,
+        revoked_at INTEGER,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create spending_limits table - a reader's own limits on their budget
+    // and what they spent in the current day and month
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS spending_limits (
+        wallet_address TEXT PRIMARY KEY,
+        daily_limit REAL,
+        monthly_limit REAL,
+        max_article_price REAL,
+        day TEXT,
+        day_spent REAL NOT NULL DEFAULT 0,
+        month TEXT,
+        month_spent REAL NOT NULL DEFAULT 0,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create webhooks table - wallets' webhook subscriptions
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS webhooks (
+        id TEXT PRIMARY KEY,
+        wallet_address TEXT NOT NULL,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        events TEXT NOT NULL,
+        low_balance_threshold REAL,
+        created_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create webhook_deliveries table - one row per event per webhook,
+    // pending until delivered or out of attempts
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'failed')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER NOT NULL,
+        last_status_code INTEGER,
+        last_error TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    // Create webhook_delivery_attempts table - log of every delivery attempt
+    await db.exec(`
+      CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        delivery_id TEXT NOT NULL,
+        attempt INTEGER NOT NULL,
+        status_code INTEGER,
+        error TEXT,
+        duration_ms INTEGER NOT NULL,
+        created_at INTEGER NOT NULL
       )
     `);
 
@@ -81,24 +398,453 @@ export class SQLiteStorageService {
       CREATE INDEX IF NOT EXISTS idx_transfers_to_address ON transfers(to_address);
       CREATE INDEX IF NOT EXISTS idx_transfers_type_tx ON transfers(type_tx);
       CREATE INDEX IF NOT EXISTS idx_transfers_created_at ON transfers(created_at);
+      CREATE INDEX IF NOT EXISTS idx_transfers_from_address_created ON transfers(from_address, created_at, signature_id);
+      CREATE INDEX IF NOT EXISTS idx_transfers_to_address_created ON transfers(to_address, created_at, signature_id);
+      CREATE INDEX IF NOT EXISTS idx_transfers_type_status ON transfers(type_tx, status);
+      CREATE INDEX IF NOT EXISTS idx_transfers_type_tx_nodes ON transfers(type_tx_nodes);
       CREATE INDEX IF NOT EXISTS idx_budget_balances_wallet_cluster ON budget_balances(wallet_address, solana_cluster);
+      CREATE INDEX IF NOT EXISTS idx_journal_entries_signature_id ON journal_entries(signature_id);
+      CREATE INDEX IF NOT EXISTS idx_ledger_postings_entry_id ON ledger_postings(entry_id);
+      CREATE INDEX IF NOT EXISTS idx_ledger_postings_account_id ON ledger_postings(account_id);
+      CREATE INDEX IF NOT EXISTS idx_entitlements_signature_id ON entitlements(signature_id);
+      CREATE INDEX IF NOT EXISTS idx_payment_references_signature_id ON payment_references(signature_id);
+      CREATE INDEX IF NOT EXISTS idx_payment_references_expires_at ON payment_references(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_invoices_status_expires_at ON invoices(status, expires_at);
+      CREATE INDEX IF NOT EXISTS idx_payment_confirmations_status_next_check ON payment_confirmations(status, next_check_at);
+      CREATE INDEX IF NOT EXISTS idx_payment_confirmations_signature_id ON payment_confirmations(signature_id);
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_runs_started_at ON reconciliation_runs(started_at);
+      CREATE INDEX IF NOT EXISTS idx_reconciliation_discrepancies_run_id ON reconciliation_discrepancies(run_id);
+      CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_auth_nonces_expires_at ON auth_nonces(expires_at);
+      CREATE INDEX IF NOT EXISTS idx_agent_keys_wallet_address ON agent_keys(wallet_address);
+      CREATE INDEX IF NOT EXISTS idx_transfers_agent_key_id ON transfers(agent_key_id);
+      CREATE INDEX IF NOT EXISTS idx_webhooks_wallet_address ON webhooks(wallet_address);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_status_next_attempt ON webhook_deliveries(status, next_attempt_at);
+      CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook_id ON webhook_deliveries(webhook_id, created_at);
+      CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery_id ON webhook_delivery_attempts(delivery_id);
     `);
 
+    await this.migrateOpeningBalances();
+
     budgetLogger.info("Database tables created successfully");
   }
 
+  /**
+   * Rebuild the transfers table when its type_tx CHECK constraint predates
+   * a transfer type or it lacks the status column, since SQLite cannot alter
+   * constraints in place. Existing rows keep their data; status defaults to
+   * 'completed'.
+   */
+  private async migrateTransfersTable(): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    const table = await db.get(
+      "SELECT sql FROM sqlite_master WHERE type = 'table' AND name = 'transfers'"
+    );
+    const missingTypes = TRANSFER_TYPES.filter(type => !table?.sql?.includes(`'${type}'`));
+    const missingStatus = !/\bstatus TEXT\b/.test(table?.sql ?? '');
+
+    if (missingTypes.length === 0 && !missingStatus) {
+      return;
+    }
+
+    await this.withTransaction(async (db) => {
+      const columns = await db.all('PRAGMA table_info(transfers)');
+      const columnList = columns.map((column: any) => column.name).join(', ');
+
+      await db.exec(transfersTableSql('transfers_migrated'));
+      await db.exec(`INSERT INTO transfers_migrated (${columnList}) SELECT ${columnList} FROM transfers`);
+      await db.exec('DROP TABLE transfers');
+      await db.exec('ALTER TABLE transfers_migrated RENAME TO transfers');
+    });
+
+    budgetLogger.info({ addedTypes: missingTypes, addedStatus: missingStatus }, "Transfers table migrated");
+  }
+
+  /**
+   * Back budgets recorded before the ledger existed with an opening entry:
+   * the treasury is debited with what each wallet holds, spendable and
+   * reserved, and its budget accounts are credited. Runs once per balance.
+   */
+  private async migrateOpeningBalances(): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(`
+      SELECT * FROM budget_balances b
+      WHERE (b.amount > 0 OR b.reserved_amount > 0) AND NOT EXISTS (
+        SELECT 1 FROM ledger_accounts a
+        WHERE a.account_type IN ('user_budget', 'user_reserved') AND a.owner = b.wallet_address
+          AND a.solana_cluster = b.solana_cluster AND a.token_mint_address = b.token_mint_address
+      )
+    `);
+    if (rows.length === 0) {
+      return;
+    }
+
+    await this.withTransaction(async (db) => {
+      for (const row of rows) {
+        const balance = this.mapRowToBudgetBalance(row);
+        const entry: JournalEntry = {
+          kind: 'opening-balance',
+          solana_cluster: balance.solana_cluster,
+          token_mint_address: balance.token_mint_address,
+          decimal: balance.decimal,
+          token_symbol: balance.token_symbol,
+          postings: [
+            { account_type: 'treasury', owner: PLATFORM_ACCOUNT_OWNER, direction: 'debit', amount: balance.amount + balance.reserved_amount },
+            { account_type: 'user_budget', owner: balance.wallet_address, direction: 'credit', amount: balance.amount },
+            { account_type: 'user_reserved', owner: balance.wallet_address, direction: 'credit', amount: balance.reserved_amount }
+          ]
+        };
+        await this.insertJournalEntry(db, { ...entry, postings: this.getNonZeroPostings(entry) });
+      }
+    });
+
+    budgetLogger.info({ balances: rows.length }, "Opening ledger entries posted for existing budgets");
+  }
+
+  /**
+   * Add a column to a table created by an older version of the schema
+   */
+  private async addColumnIfMissing(table: string, column: string, definition: string): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    const columns = await db.all(`PRAGMA table_info(${table})`);
+    if (columns.some((existing: any) => existing.name === column)) {
+      return;
+    }
+
+    await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    budgetLogger.info({ table, column }, "Column added to existing table");
+  }
+
+  /**
+   * Run `work` inside a BEGIN IMMEDIATE transaction, rolling back if it throws.
+   * Every query shares one connection, so transactions are queued and run one
+   * at a time. Called from inside another transaction, `work` joins it.
+   */
+  private async withTransaction<T>(work: (db: Database) => Promise<T>): Promise<T> {
+    if (db && this.queueContext.getStore()) {
+      return work(db);
+    }
+
+    return this.enqueue(async (connection) => {
+      await connection.exec('BEGIN IMMEDIATE');
+      try {
+        const result = await work(connection);
+        await connection.exec('COMMIT');
+        return result;
+      } catch (error) {
+        await connection.exec('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Run a single write statement on the transaction queue, so it never lands
+   * inside another request's open transaction and is rolled back with it
+   */
+  private async write<T>(work: (db: Database) => Promise<T>): Promise<T> {
+    return this.enqueue(work);
+  }
+
+  private async enqueue<T>(work: (db: Database) => Promise<T>): Promise<T> {
+    if (!db) throw new Error('Database not initialized');
+    const connection = db;
+
+    // Already holding the connection: run in place rather than wait on ourselves
+    if (this.queueContext.getStore()) {
+      return work(connection);
+    }
+
+    const run = () => this.queueContext.run(true, () => work(connection));
+    const result = this.transactionQueue.then(run, run);
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  // Ledger functions
+  /**
+   * Record a journal entry inside the caller's transaction and apply its
+   * user_budget and user_reserved postings to budget_balances. This is the
+   * only place budget balances change. Debits are applied first, each as a
+   * conditional UPDATE; if the first one would overdraw its balance nothing
+   * is written and false is returned.
+   */
+  private async postJournalEntry(db: Database, entry: JournalEntry): Promise<boolean> {
+    const postings = this.getNonZeroPostings(entry);
+    const budgetPostings = postings
+      .filter(posting => BUDGET_BALANCE_COLUMNS[posting.account_type])
+      .sort((a, b) => Number(a.direction === 'credit') - Number(b.direction === 'credit'));
+
+    for (const [index, posting] of budgetPostings.entries()) {
+      if (!await this.applyToBudgetBalance(db, entry, posting)) {
+        if (index === 0) {
+          return false;
+        }
+        throw new Error(`Journal entry would overdraw ${posting.account_type} of ${posting.owner}`);
+      }
+    }
+
+    await this.insertJournalEntry(db, { ...entry, postings });
+    return true;
+  }
+
+  private getNonZeroPostings(entry: JournalEntry): LedgerPosting[] {
+    const postings = entry.postings.filter(posting => posting.amount !== 0);
+    const total = (direction: LedgerPosting['direction']) => postings
+      .filter(posting => posting.direction === direction)
+      .reduce((sum, posting) => sum + posting.amount, 0);
+
+    if (postings.some(posting => !Number.isSafeInteger(posting.amount) || posting.amount < 0)) {
+      throw new Error(`Journal entry ${entry.kind} has an invalid posting amount`);
+    }
+    if (total('debit') !== total('credit')) {
+      throw new Error(`Unbalanced journal entry ${entry.kind}: debits ${total('debit')}, credits ${total('credit')}`);
+    }
+    return postings;
+  }
+
+  /**
+   * Credits for an article payment's splits, or all of it to the recipient
+   */
+  private getSplitPostings(splits: RevenueSplit[] | undefined, recipient: string, amount: number): LedgerPosting[] {
+    if (!splits || splits.length === 0) {
+      return [{ account_type: 'creator_revenue', owner: recipient, direction: 'credit', amount }];
+    }
+    return splits.map(split => ({ account_type: split.account_type, owner: split.owner, direction: 'credit', amount: split.amount }));
+  }
+
+  /**
+   * A journal entry with its postings, or null
+   */
+  async getJournalEntry(kind: JournalEntryKind, signatureId: string): Promise<JournalEntryRecord | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    const entry = await db.get(
+      'SELECT * FROM journal_entries WHERE kind = ? AND signature_id = ?',
+      [kind, signatureId]
+    );
+    if (!entry) {
+      return null;
+    }
+
+    const postings = await db.all(
+      `SELECT a.account_type, a.owner, a.decimal, a.token_symbol, p.direction, p.amount
+       FROM ledger_postings p JOIN ledger_accounts a ON a.id = p.account_id
+       WHERE p.entry_id = ? ORDER BY p.id`,
+      [entry.id]
+    );
+
+    return {
+      id: entry.id,
+      kind: entry.kind,
+      signature_id: entry.signature_id ?? undefined,
+      solana_cluster: entry.solana_cluster,
+      token_mint_address: entry.token_mint_address,
+      decimal: postings[0]?.decimal,
+      token_symbol: postings[0]?.token_symbol,
+      memo: entry.memo ?? undefined,
+      created_at: entry.created_at,
+      postings: postings.map(posting => ({
+        account_type: posting.account_type,
+        owner: posting.owner,
+        direction: posting.direction,
+        amount: posting.amount
+      }))
+    };
+  }
+
+  private async applyToBudgetBalance(db: Database, entry: JournalEntry, posting: LedgerPosting): Promise<boolean> {
+    const column = BUDGET_BALANCE_COLUMNS[posting.account_type]!;
+
+    if (posting.direction === 'debit') {
+      const result = await db.run(`
+        UPDATE budget_balances
+        SET ${column} = ${column} - ?
+        WHERE wallet_address = ? AND solana_cluster = ? AND token_mint_address = ? AND ${column} >= ?
+      `, [posting.amount, posting.owner, entry.solana_cluster, entry.token_mint_address, posting.amount]);
+      return (result.changes ?? 0) > 0;
+    }
+
+    // Increment in SQL so concurrent credits are never lost
+    await db.run(`
+      INSERT INTO budget_balances (
+        wallet_address, solana_cluster, ${column}, decimal, token_symbol,
+        token_mint_address, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(wallet_address, solana_cluster, token_mint_address)
+      DO UPDATE SET
+        ${column} = ${column} + excluded.${column},
+        decimal = excluded.decimal,
+        token_symbol = excluded.token_symbol
+    `, [
+      posting.owner,
+      entry.solana_cluster,
+      posting.amount,
+      entry.decimal,
+      entry.token_symbol,
+      entry.token_mint_address,
+      Math.floor(Date.now() / 1000)
+    ]);
+    return true;
+  }
+
+  private async insertJournalEntry(db: Database, entry: JournalEntry): Promise<void> {
+    if (entry.postings.length === 0) {
+      return;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const result = await db.run(
+      `INSERT INTO journal_entries (kind, signature_id, solana_cluster, token_mint_address, memo, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [entry.kind, entry.signature_id, entry.solana_cluster, entry.token_mint_address, entry.memo, now]
+    );
+
+    for (const posting of entry.postings) {
+      await db.run(
+        `INSERT OR IGNORE INTO ledger_accounts (
+          account_type, owner, solana_cluster, token_mint_address, decimal, token_symbol, created_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        [posting.account_type, posting.owner, entry.solana_cluster, entry.token_mint_address, entry.decimal, entry.token_symbol, now]
+      );
+
+      await db.run(
+        `INSERT INTO ledger_postings (entry_id, account_id, direction, amount)
+         SELECT ?, id, ?, ? FROM ledger_accounts
+         WHERE account_type = ? AND owner = ? AND solana_cluster = ? AND token_mint_address = ?`,
+        [result.lastID, posting.direction, posting.amount, posting.account_type, posting.owner, entry.solana_cluster, entry.token_mint_address]
+      );
+    }
+
+    budgetLogger.info({
+      entryId: result.lastID,
+      kind: entry.kind,
+      signatureId: entry.signature_id,
+      postings: entry.postings.length
+    }, "Journal entry posted");
+  }
+
+  /**
+   * Every ledger account with the sums of its debits and credits
+   */
+  async getLedgerAccountBalances(accountType?: LedgerAccountType, owner?: string): Promise<LedgerAccountBalance[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const conditions: string[] = [];
+    const params: any[] = [];
+    if (accountType) {
+      conditions.push('a.account_type = ?');
+      params.push(accountType);
+    }
+    if (owner) {
+      conditions.push('a.owner = ?');
+      params.push(owner);
+    }
+
+    const rows = await db.all(
+      `SELECT a.account_type, a.owner, a.solana_cluster, a.token_mint_address, a.token_symbol, a.decimal,
+         COALESCE(SUM(CASE WHEN p.direction = 'debit' THEN p.amount END), 0) AS debits,
+         COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount END), 0) AS credits,
+         COUNT(p.id) AS postings
+       FROM ledger_accounts a
+       LEFT JOIN ledger_postings p ON p.account_id = a.id
+       ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+       GROUP BY a.id
+       ORDER BY a.account_type, a.owner, a.solana_cluster, a.token_mint_address`,
+      params
+    );
+
+    return rows as LedgerAccountBalance[];
+  }
+
+  /**
+   * Debits and credits to an owner's accounts of one type, per article of
+   * the transfers the entries stand for
+   */
+  async getAccountTotalsByArticle(accountType: LedgerAccountType, owner: string): Promise<ArticleAccountTotal[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      `SELECT t.type_tx_nodes AS article_id, a.solana_cluster, a.token_mint_address, a.token_symbol, a.decimal,
+         COALESCE(SUM(CASE WHEN p.direction = 'debit' THEN p.amount END), 0) AS debits,
+         COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount END), 0) AS credits,
+         COUNT(p.id) AS postings
+       FROM ledger_postings p
+       JOIN ledger_accounts a ON a.id = p.account_id
+       JOIN journal_entries e ON e.id = p.entry_id
+       JOIN transfers t ON t.signature_id = e.signature_id
+       WHERE a.account_type = ? AND a.owner = ? AND t.type_tx_nodes IS NOT NULL
+       GROUP BY t.type_tx_nodes, a.id
+       ORDER BY t.type_tx_nodes, a.solana_cluster, a.token_mint_address`,
+      [accountType, owner]
+    );
+
+    return rows as ArticleAccountTotal[];
+  }
+
+  /**
+   * Most recent postings to an owner's accounts of one type, newest first
+   */
+  async getAccountPostings(accountType: LedgerAccountType, owner: string, limit: number): Promise<AccountPostingRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      `SELECT e.id AS entry_id, e.kind, e.signature_id, t.type_tx_nodes AS article_id,
+         a.solana_cluster, a.token_mint_address, a.token_symbol, a.decimal,
+         p.direction, p.amount, e.created_at
+       FROM ledger_postings p
+       JOIN ledger_accounts a ON a.id = p.account_id
+       JOIN journal_entries e ON e.id = p.entry_id
+       LEFT JOIN transfers t ON t.signature_id = e.signature_id
+       WHERE a.account_type = ? AND a.owner = ?
+       ORDER BY e.created_at DESC, p.id DESC
+       LIMIT ?`,
+      [accountType, owner, limit]
+    );
+
+    return rows.map(row => ({
+      ...row,
+      signature_id: row.signature_id ?? undefined,
+      article_id: row.article_id ?? undefined
+    }));
+  }
+
+  /**
+   * Journal entries whose debits and credits differ, or that have fewer
+   * than two postings
+   */
+  async getUnbalancedJournalEntries(): Promise<JournalEntryTotals[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      `SELECT e.id AS entry_id, e.kind, e.signature_id, COUNT(p.id) AS postings,
+         COALESCE(SUM(CASE WHEN p.direction = 'debit' THEN p.amount END), 0) AS debits,
+         COALESCE(SUM(CASE WHEN p.direction = 'credit' THEN p.amount END), 0) AS credits
+       FROM journal_entries e
+       LEFT JOIN ledger_postings p ON p.entry_id = e.id
+       GROUP BY e.id
+       HAVING debits != credits OR postings < 2
+       ORDER BY e.id`
+    );
+
+    return rows.map(row => ({ ...row, signature_id: row.signature_id ?? undefined }));
+  }
+
   // Transfer management functions
   async createTransfer(transfer: Omit<TransferRecord, 'created_at'>): Promise<void> {
     if (!db) throw new Error('Database not initialized');
 
     const now = Math.floor(Date.now() / 1000);
 
-    await db.run(
+    await this.write((db) => db.run(
       `INSERT INTO transfers (
         signature_id, type_tx, type_tx_nodes, from_address, to_address,
         solana_cluster, amount, decimal, token_symbol, token_mint_address,
-        memo_value, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        memo_value, status, agent_key_id, price, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         transfer.signature_id,
         transfer.type_tx,
@@ -111,9 +857,12 @@ export class SQLiteStorageService {
         transfer.token_symbol,
         transfer.token_mint_address,
         transfer.memo_value,
+        transfer.status ?? 'completed',
+        transfer.agent_key_id,
+        transfer.price,
         now
       ]
-    );
+    ));
 
     budgetLogger.info({
       signatureId: transfer.signature_id,
@@ -144,157 +893,229 @@ export class SQLiteStorageService {
     return rows.map(row => this.mapRowToTransfer(row));
   }
 
-  async getTransfersByType(typeTx: string, limit: number = 50): Promise<TransferRecord[]> {
+  /**
+   * A page of transfers matching `filter`, newest first, starting after
+   * `cursor`. Ties on created_at are broken by signature_id, so pages
+   * neither skip nor repeat transfers written in the same second.
+   */
+  async queryTransfers(filter: TransferFilter, limit: number = 50, cursor?: TransferCursor): Promise<TransferPage> {
     if (!db) throw new Error('Database not initialized');
 
+    const { conditions, params } = this.buildTransferFilter(filter);
+    if (cursor) {
+      conditions.push('(created_at < ? OR (created_at = ? AND signature_id < ?))');
+      params.push(cursor.created_at, cursor.created_at, cursor.signature_id);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     const rows = await db.all(
-      'SELECT * FROM transfers WHERE type_tx = ? ORDER BY created_at DESC LIMIT ?',
-      [typeTx, limit]
+      `SELECT * FROM transfers ${where} ORDER BY created_at DESC, signature_id DESC LIMIT ?`,
+      [...params, limit + 1]
     );
 
-    return rows.map(row => this.mapRowToTransfer(row));
+    const transfers = rows.slice(0, limit).map(row => this.mapRowToTransfer(row));
+    const last = transfers[transfers.length - 1];
+
+    return {
+      transfers,
+      nextCursor: rows.length > limit ? { created_at: last.created_at, signature_id: last.signature_id } : null
+    };
   }
 
-  // Budget balance management functions
-  async getBudgetBalance(
-    walletAddress: string,
-    solanaCluster: 'mainnet-beta' | 'devnet',
-    tokenMintAddress: string
-  ): Promise<BudgetBalance | null> {
+  async countTransfers(filter: TransferFilter): Promise<number> {
     if (!db) throw new Error('Database not initialized');
 
-    const row = await db.get(
-      'SELECT * FROM budget_balances WHERE wallet_address = ? AND solana_cluster = ? AND token_mint_address = ?',
-      [walletAddress, solanaCluster, tokenMintAddress]
-    );
+    const { conditions, params } = this.buildTransferFilter(filter);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const row = await db.get(`SELECT COUNT(*) AS count FROM transfers ${where}`, params);
 
-    return row ? this.mapRowToBudgetBalance(row) : null;
+    return row?.count ?? 0;
   }
 
-async getAllBudgetBalances(walletAddress: string): Promise<BudgetBalance[]> {
+  /**
+   * Count and sum transfers matching `filter` per type and token
+   */
+  async getTransferTotals(filter: TransferFilter): Promise<TransferTotal[]> {
     if (!db) throw new Error('Database not initialized');
 
+    const { conditions, params } = this.buildTransferFilter(filter);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     const rows = await db.all(
-      'SELECT * FROM budget_balances WHERE wallet_address = ? ORDER BY solana_cluster, token_symbol',
-      [walletAddress]
+      `SELECT type_tx, token_symbol, token_mint_address, solana_cluster, decimal,
+              COUNT(*) AS count, SUM(amount) AS amount
+       FROM transfers ${where}
+       GROUP BY type_tx, token_symbol, token_mint_address, solana_cluster, decimal
+       ORDER BY token_symbol, solana_cluster, type_tx`,
+      params
     );
 
-    return rows.map(row => this.mapRowToBudgetBalance(row));
+    return rows.map(row => ({
+      type_tx: row.type_tx,
+      token_symbol: row.token_symbol,
+      token_mint_address: row.token_mint_address,
+      solana_cluster: row.solana_cluster,
+      decimal: row.decimal,
+      count: row.count,
+      amount: row.amount
+    }));
   }
 
-  async updateBudgetBalance(
-    walletAddress: string,
-    solanaCluster: 'mainnet-beta' | 'devnet',
-    tokenMintAddress: string,
-    amount: number,
-    decimal: number,
-    tokenSymbol: string
-  ): Promise<void> {
+  /**
+   * Count and sum transfers matching a filter per article, type and token
+   */
+  async getArticleTransferTotals(filter: TransferFilter): Promise<ArticleTransferTotal[]> {
     if (!db) throw new Error('Database not initialized');
 
-    const now = Math.floor(Date.now() / 1000);
+    const { conditions, params } = this.buildTransferFilter(filter);
+    conditions.push('type_tx_nodes IS NOT NULL');
+    const rows = await db.all(
+      `SELECT type_tx_nodes AS article_id, type_tx, token_symbol, token_mint_address, solana_cluster, decimal,
+              COUNT(*) AS count, SUM(amount) AS amount
+       FROM transfers WHERE ${conditions.join(' AND ')}
+       GROUP BY type_tx_nodes, type_tx, token_symbol, token_mint_address, solana_cluster, decimal
+       ORDER BY type_tx_nodes, token_symbol, solana_cluster, type_tx`,
+      params
+    );
 
-    await db.run(`
-      INSERT INTO budget_balances (
-        wallet_address, solana_cluster, amount, decimal, token_symbol,
-        token_mint_address, created_at
-      ) VALUES (?, ?, ?, ?, ?, ?, ?)
-      ON CONFLICT(wallet_address, solana_cluster, token_mint_address)
-      DO UPDATE SET
-        amount = excluded.amount,
-        decimal = excluded.decimal,
-        token_symbol = excluded.token_symbol
-    `, [
-      walletAddress,
-      solanaCluster,
-      amount,
-      decimal,
-      tokenSymbol,
-      tokenMintAddress,
-      now
-    ]);
+    return rows as ArticleTransferTotal[];
+  }
 
-    budgetLogger.info({
-      walletAddress,
-      solanaCluster,
-      tokenMintAddress,
-      amount
-    }, "Budget balance updated");
+  private buildTransferFilter(filter: TransferFilter): { conditions: string[]; params: any[] } {
+    const conditions: string[] = [];
+    const params: any[] = [];
+
+    if (filter.walletAddress) {
+      conditions.push('(from_address = ? OR to_address = ?)');
+      params.push(filter.walletAddress, filter.walletAddress);
+    }
+    if (filter.typeTx && filter.typeTx.length > 0) {
+      conditions.push(`type_tx IN (${filter.typeTx.map(() => '?').join(', ')})`);
+      params.push(...filter.typeTx);
+    }
+    if (filter.excludeTypeTx && filter.excludeTypeTx.length > 0) {
+      conditions.push(`type_tx NOT IN (${filter.excludeTypeTx.map(() => '?').join(', ')})`);
+      params.push(...filter.excludeTypeTx);
+    }
+    if (filter.tokenMintAddress) {
+      conditions.push('token_mint_address = ?');
+      params.push(filter.tokenMintAddress);
+    }
+    if (filter.solanaCluster) {
+      conditions.push('solana_cluster = ?');
+      params.push(filter.solanaCluster);
+    }
+    if (filter.createdFrom !== undefined) {
+      conditions.push('created_at >= ?');
+      params.push(filter.createdFrom);
+    }
+    if (filter.createdTo !== undefined) {
+      conditions.push('created_at < ?');
+      params.push(filter.createdTo);
+    }
+    if (filter.articleIds) {
+      conditions.push(`type_tx_nodes IN (${filter.articleIds.map(() => '?').join(', ') || 'NULL'})`);
+      params.push(...filter.articleIds);
+    }
+
+    return { conditions, params };
   }
 
-  async addToBudgetBalance(
-    walletAddress: string,
-    solanaCluster: 'mainnet-beta' | 'devnet',
-    tokenMintAddress: string,
-    amountToAdd: number,
-    decimal: number,
-    tokenSymbol: string
-  ): Promise<void> {
-    const currentBalance = await this.getBudgetBalance(walletAddress, solanaCluster, tokenMintAddress);
-    const newAmount = currentBalance ? currentBalance.amount + amountToAdd : amountToAdd;
-
-    await this.updateBudgetBalance(
-      walletAddress,
-      solanaCluster,
-      tokenMintAddress,
-      newAmount,
-      decimal,
-      tokenSymbol
+  async getTransfersByType(typeTx: string, limit: number = 50): Promise<TransferRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      'SELECT * FROM transfers WHERE type_tx = ? ORDER BY created_at DESC LIMIT ?',
+      [typeTx, limit]
     );
+
+    return rows.map(row => this.mapRowToTransfer(row));
   }
 
-  async deductFromBudgetBalance(
+  // Budget balance management functions
+  async getBudgetBalance(
     walletAddress: string,
     solanaCluster: 'mainnet-beta' | 'devnet',
-    tokenMintAddress: string,
-    amountToDeduct: number,
-    decimal: number,
-    tokenSymbol: string
-  ): Promise<boolean> {
-    const currentBalance = await this.getBudgetBalance(walletAddress, solanaCluster, tokenMintAddress);
+    tokenMintAddress: string
+  ): Promise<BudgetBalance | null> {
+    if (!db) throw new Error('Database not initialized');
 
-    if (!currentBalance || currentBalance.amount < amountToDeduct) {
-      return false;
-    }
+    const row = await db.get(
+      'SELECT * FROM budget_balances WHERE wallet_address = ? AND solana_cluster = ? AND token_mint_address = ?',
+      [walletAddress, solanaCluster, tokenMintAddress]
+    );
+
+    return row ? this.mapRowToBudgetBalance(row) : null;
+  }
+
+  async getAllBudgetBalances(walletAddress: string): Promise<BudgetBalance[]> {
+    if (!db) throw new Error('Database not initialized');
 
-    const newAmount = currentBalance.amount - amountToDeduct;
-    await this.updateBudgetBalance(
-      walletAddress,
-      solanaCluster,
-      tokenMintAddress,
-      newAmount,
-      decimal,
-      tokenSymbol
+    const rows = await db.all(
+      'SELECT * FROM budget_balances WHERE wallet_address = ? ORDER BY solana_cluster, token_symbol',
+      [walletAddress]
     );
 
-    return true;
+    return rows.map(row => this.mapRowToBudgetBalance(row));
+  }
+
+  /**
+   * Every budget balance of every wallet
+   */
+  async listBudgetBalances(): Promise<BudgetBalance[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all('SELECT * FROM budget_balances ORDER BY wallet_address, solana_cluster, token_mint_address');
+    return rows.map(row => this.mapRowToBudgetBalance(row));
   }
 
   // Payment processing functions
   async processTopUp(context: TopUpContext): Promise<void> {
-    // Create transfer record
-    await this.createTransfer({
-      signature_id: context.signatureId,
-      type_tx: 'top-up',
-      from: context.from,
-      to: context.to,
-      solana_cluster: context.solanaCluster,
-      amount: context.amount,
-      decimal: context.decimal,
-      token_symbol: context.tokenSymbol,
-      token_mint_address: context.tokenMintAddress,
-      memo_value: context.memoValue
+    const balanceBefore = await this.withTransaction(async (db) => {
+      const balance = await this.getBudgetBalance(context.from, context.solanaCluster, context.tokenMintAddress);
+
+      // Create transfer record
+      await this.createTransfer({
+        signature_id: context.signatureId,
+        type_tx: 'top-up',
+        from: context.from,
+        to: context.to,
+        solana_cluster: context.solanaCluster,
+        amount: context.amount,
+        decimal: context.decimal,
+        token_symbol: context.tokenSymbol,
+        token_mint_address: context.tokenMintAddress,
+        memo_value: context.memoValue
+      });
+
+      // The deposit reached the platform's wallet and is owed to the payer
+      await this.postJournalEntry(db, {
+        kind: 'top-up',
+        signature_id: context.signatureId,
+        solana_cluster: context.solanaCluster,
+        token_mint_address: context.tokenMintAddress,
+        decimal: context.decimal,
+        token_symbol: context.tokenSymbol,
+        postings: [
+          { account_type: 'treasury', owner: PLATFORM_ACCOUNT_OWNER, direction: 'debit', amount: context.amount },
+          { account_type: 'user_budget', owner: context.from, direction: 'credit', amount: context.amount }
+        ]
+      });
+
+      return balance ? balance.amount : 0;
     });
 
-    // Update budget balance
-    await this.addToBudgetBalance(
-      context.from,
-      context.solanaCluster,
-      context.tokenMintAddress,
-      context.amount,
-      context.decimal,
-      context.tokenSymbol
-    );
+    budgetEvents.publish({
+      type: 'deposit.confirmed',
+      walletAddress: context.from,
+      signatureId: context.signatureId,
+      solanaCluster: context.solanaCluster,
+      tokenMintAddress: context.tokenMintAddress,
+      tokenSymbol: context.tokenSymbol,
+      decimal: context.decimal,
+      amount: context.amount,
+      balanceBefore,
+      balanceAfter: balanceBefore + context.amount
+    });
   }
 
   async hasSufficientBudget(
@@ -307,53 +1128,146 @@ async getAllBudgetBalances(walletAddress: string): Promise<BudgetBalance[]> {
     return balance ? balance.amount >= requiredAmount : false;
   }
 
-  async processArticlePayment(context: PaymentContext): Promise<{ success: boolean; requiresOneTimePayment: boolean }> {
-    const hasBudget = await this.hasSufficientBudget(
-      context.walletAddress,
-      context.solanaCluster,
-      context.tokenMintAddress,
-      context.amount
-    );
+  /**
+   * Charge an article to the wallet's budget. The balance check, the debit,
+   * the transfer record and the entitlement are written in one transaction,
+   * so parallel requests cannot overspend and a failure leaves no partial state.
+   * Payments made with an agent key also count against the key's spend cap,
+   * and every payment against the reader's own spending limits. An article
+   * the wallet already owns is not charged again, even when two reads of it
+   * race past the paywall's entitlement check.
+   */
+  async processArticlePayment(context: PaymentContext): Promise<ArticlePaymentResult> {
+    const outcome = await this.withTransaction(async (db): Promise<{
+      signatureId?: string;
+      balance?: BudgetBalance;
+      reason?: ArticlePaymentFailureReason;
+      limit?: SpendingLimitType;
+    }> => {
+      const price = context.price ?? 0;
+      const period = getSpendingPeriod();
+
+      if (context.articleId && await db.get(
+        'SELECT 1 FROM entitlements WHERE wallet_address = ? AND article_id = ?',
+        [context.walletAddress, context.articleId]
+      )) {
+        return { reason: 'already_entitled' };
+      }
+
+      if (context.agentKeyId) {
+        const now = Math.floor(Date.now() / 1000);
+        const agentKey = await db.get(
+          'SELECT spend_cap, spent FROM agent_keys WHERE id = ? AND revoked_at IS NULL AND expires_at > ?',
+          [context.agentKeyId, now]
+        );
+
+        if (!agentKey || toMicroUnits(agentKey.spent + price) > toMicroUnits(agentKey.spend_cap)) {
+          return { reason: 'agent_key_cap_exceeded' };
+        }
+      }
+
+      const limits = await this.getSpendingLimits(context.walletAddress);
+      const exceededLimit = limits ? findExceededLimit(limits, price, period) : null;
+      if (exceededLimit) {
+        return { reason: 'limit_exceeded', limit: exceededLimit };
+      }
 
-    if (hasBudget) {
-      // Deduct from budget and create article transfer
       const balance = await this.getBudgetBalance(
         context.walletAddress,
         context.solanaCluster,
         context.tokenMintAddress
       );
 
-      if (balance) {
-        await this.deductFromBudgetBalance(
-          context.walletAddress,
-          context.solanaCluster,
-          context.tokenMintAddress,
-          context.amount,
-          balance.decimal,
-          balance.token_symbol
+      const signatureId = `budget-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+      const recipient = process.env.MY_WALLET_ADDRESS || '';
+
+      // Move the price from the reader's budget to the payees' revenue and the platform fee
+      const debited = balance !== null && await this.postJournalEntry(db, {
+        kind: 'article',
+        signature_id: signatureId,
+        solana_cluster: context.solanaCluster,
+        token_mint_address: context.tokenMintAddress,
+        decimal: balance.decimal,
+        token_symbol: balance.token_symbol,
+        postings: [
+          { account_type: 'user_budget', owner: context.walletAddress, direction: 'debit', amount: context.amount },
+          ...this.getSplitPostings(context.splits, recipient, context.amount)
+        ]
+      });
+
+      if (!balance || !debited) {
+        return { reason: 'insufficient_budget' };
+      }
+
+      // Create article transfer record
+      await this.createTransfer({
+        signature_id: signatureId,
+        type_tx: 'article',
+        type_tx_nodes: context.articleId,
+        from: context.walletAddress,
+        to: recipient,
+        solana_cluster: context.solanaCluster,
+        amount: context.amount,
+        decimal: balance.decimal,
+        token_symbol: balance.token_symbol,
+        token_mint_address: context.tokenMintAddress,
+        agent_key_id: context.agentKeyId,
+        price: context.price
+      });
+
+      if (context.agentKeyId) {
+        await db.run(
+          'UPDATE agent_keys SET spent = ROUND(spent + ?, 6) WHERE id = ?',
+          [price, context.agentKeyId]
         );
+      }
 
-        // Create article transfer record
-        const signatureId = `budget-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-        await this.createTransfer({
-          signature_id: signatureId,
-          type_tx: 'article',
-          type_tx_nodes: context.articleId,
-          from: context.walletAddress,
-          to: process.env.MY_WALLET_ADDRESS || '',
-          solana_cluster: context.solanaCluster,
-          amount: context.amount,
-          decimal: balance.decimal,
-          token_symbol: balance.token_symbol,
-          token_mint_address: context.tokenMintAddress
-        });
+      // Counters from an earlier day or month start again from this payment
+      await db.run(
+        `INSERT INTO spending_limits (wallet_address, day, day_spent, month, month_spent, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT(wallet_address) DO UPDATE SET
+           day_spent = CASE WHEN day = excluded.day THEN ROUND(day_spent + excluded.day_spent, 6) ELSE excluded.day_spent END,
+           day = excluded.day,
+           month_spent = CASE WHEN month = excluded.month THEN ROUND(month_spent + excluded.month_spent, 6) ELSE excluded.month_spent END,
+           month = excluded.month`,
+        [context.walletAddress, period.day, price, period.month, price, Math.floor(Date.now() / 1000)]
+      );
 
-        return { success: true, requiresOneTimePayment: false };
+      if (context.articleId) {
+        await this.grantEntitlement(context.walletAddress, context.articleId, signatureId);
       }
+
+      return { signatureId, balance };
+    });
+
+    if (outcome.signatureId && outcome.balance) {
+      budgetEvents.publish({
+        type: 'article.purchased',
+        walletAddress: context.walletAddress,
+        signatureId: outcome.signatureId,
+        solanaCluster: context.solanaCluster,
+        tokenMintAddress: context.tokenMintAddress,
+        tokenSymbol: outcome.balance.token_symbol,
+        decimal: outcome.balance.decimal,
+        amount: context.amount,
+        balanceBefore: outcome.balance.amount,
+        balanceAfter: outcome.balance.amount - context.amount,
+        articleId: context.articleId,
+        agentKeyId: context.agentKeyId,
+        price: context.price
+      });
+
+      return { success: true, requiresOneTimePayment: false, signatureId: outcome.signatureId };
     }
 
-    // Insufficient budget, requires one-time payment
-    return { success: false, requiresOneTimePayment: true };
+    // Not charged; an exhausted budget can still be paid for one-time
+    return {
+      success: false,
+      requiresOneTimePayment: outcome.reason === 'insufficient_budget',
+      reason: outcome.reason,
+      limit: outcome.limit
+    };
   }
 
   async processOneTimeArticlePayment(
@@ -366,23 +1280,275 @@ async getAllBudgetBalances(walletAddress: string): Promise<BudgetBalance[]> {
     tokenSymbol: string,
     tokenMintAddress: string,
     articleId: string,
-    memoValue?: string
+    memoValue?: string,
+    splits?: RevenueSplit[]
   ): Promise<void> {
-    await this.createTransfer({
-      signature_id: signatureId,
-      type_tx: 'article-one-time',
-      type_tx_nodes: articleId,
-      from,
-      to,
-      solana_cluster: solanaCluster,
-      amount,
-      decimal,
-      token_symbol: tokenSymbol,
-      token_mint_address: tokenMintAddress,
-      memo_value: memoValue
+    await this.withTransaction(async (db) => {
+      await this.createTransfer({
+        signature_id: signatureId,
+        type_tx: 'article-one-time',
+        type_tx_nodes: articleId,
+        from,
+        to,
+        solana_cluster: solanaCluster,
+        amount,
+        decimal,
+        token_symbol: tokenSymbol,
+        token_mint_address: tokenMintAddress,
+        memo_value: memoValue
+      });
+
+      // Paid on chain straight to the payees
+      await this.postJournalEntry(db, {
+        kind: 'article-one-time',
+        signature_id: signatureId,
+        solana_cluster: solanaCluster,
+        token_mint_address: tokenMintAddress,
+        decimal,
+        token_symbol: tokenSymbol,
+        postings: [
+          { account_type: 'treasury', owner: PLATFORM_ACCOUNT_OWNER, direction: 'debit', amount },
+          ...this.getSplitPostings(splits, to, amount)
+        ]
+      });
+
+      if (from) {
+        await this.grantEntitlement(from, articleId, signatureId);
+      }
+    });
+  }
+
+  // Entitlement management functions
+  async grantEntitlement(walletAddress: string, articleId: string, signatureId: string): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.write((db) => db.run(
+      `INSERT OR IGNORE INTO entitlements (wallet_address, article_id, signature_id, created_at)
+       VALUES (?, ?, ?, ?)`,
+      [walletAddress, articleId, signatureId, now]
+    ));
+
+    budgetLogger.info({ walletAddress, articleId, signatureId }, "Entitlement granted");
+  }
+
+  async hasEntitlement(walletAddress: string, articleId: string): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    const row = await db.get(
+      'SELECT 1 FROM entitlements WHERE wallet_address = ? AND article_id = ?',
+      [walletAddress, articleId]
+    );
+
+    return !!row;
+  }
+
+  async getEntitlementsByWallet(walletAddress: string): Promise<EntitlementRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      'SELECT * FROM entitlements WHERE wallet_address = ? ORDER BY created_at DESC',
+      [walletAddress]
+    );
+
+    return rows.map(row => this.mapRowToEntitlement(row));
+  }
+
+  /**
+   * Compensate an article payment whose content could not be delivered.
+   * The payer is credited back to their budget and a 'refund' transfer is
+   * recorded against the original one, and a budget purchase is taken off
+   * the agent key's and the reader's spending counters. Refunding twice is
+   * a no-op.
+   */
+  async refundTransfer(signatureId: string, reason: string): Promise<string | null> {
+    return this.withTransaction(async (db) => {
+      const original = await this.getTransfer(signatureId);
+
+      if (!original || (original.type_tx !== 'article' && original.type_tx !== 'article-one-time')) {
+        return null;
+      }
+
+      const refundSignatureId = `refund-${signatureId}`;
+      if (await this.getTransfer(refundSignatureId)) {
+        return refundSignatureId;
+      }
+
+      await this.createTransfer({
+        signature_id: refundSignatureId,
+        type_tx: 'refund',
+        type_tx_nodes: original.type_tx_nodes,
+        from: original.to,
+        to: original.from,
+        solana_cluster: original.solana_cluster,
+        amount: original.amount,
+        decimal: original.decimal,
+        token_symbol: original.token_symbol,
+        token_mint_address: original.token_mint_address,
+        memo_value: reason
+      });
+
+      // Whoever was credited with the payment gives it back into the
+      // payer's budget; payments from before the ledger were credited to
+      // the recipient
+      const originalEntry = await this.getJournalEntry(original.type_tx, signatureId);
+      const credits = originalEntry
+        ? originalEntry.postings.filter(posting => posting.direction === 'credit')
+        : [{ account_type: 'creator_revenue' as const, owner: original.to, amount: original.amount }];
+
+      await this.postJournalEntry(db, {
+        kind: 'refund',
+        signature_id: refundSignatureId,
+        solana_cluster: original.solana_cluster,
+        token_mint_address: original.token_mint_address,
+        decimal: original.decimal,
+        token_symbol: original.token_symbol,
+        memo: reason,
+        postings: [
+          ...credits.map((credit): LedgerPosting => ({ ...credit, direction: 'debit' })),
+          { account_type: 'user_budget', owner: original.from, direction: 'credit', amount: original.amount }
+        ]
+      });
+
+      // A refunded budget purchase no longer counts against the agent key's
+      // spend cap or the reader's limits for the day and month it was made
+      // in. Purchases recorded without their price cannot be given back.
+      if (original.type_tx === 'article' && original.price) {
+        if (original.agent_key_id) {
+          await db.run(
+            'UPDATE agent_keys SET spent = MAX(ROUND(spent - ?, 6), 0) WHERE id = ?',
+            [original.price, original.agent_key_id]
+          );
+        }
+
+        const period = getSpendingPeriod(new Date(original.created_at * 1000));
+        await db.run(
+          `UPDATE spending_limits SET
+             day_spent = CASE WHEN day = ? THEN MAX(ROUND(day_spent - ?, 6), 0) ELSE day_spent END,
+             month_spent = CASE WHEN month = ? THEN MAX(ROUND(month_spent - ?, 6), 0) ELSE month_spent END
+           WHERE wallet_address = ?`,
+          [period.day, original.price, period.month, original.price, original.from]
+        );
+      }
+
+      // A refunded article is no longer owned
+      await db.run('DELETE FROM entitlements WHERE signature_id = ?', [signatureId]);
+
+      return refundSignatureId;
+    });
+  }
+
+  // Withdrawal functions
+  /**
+   * Record a pending withdrawal and move the amount from the spendable
+   * balance into reserved_amount, in one transaction. Returns false without
+   * writing anything if the balance does not cover the amount.
+   */
+  async requestWithdrawal(context: WithdrawalContext): Promise<boolean> {
+    return this.withTransaction(async (db) => {
+      const reserved = await this.postJournalEntry(db, {
+        kind: 'withdrawal',
+        signature_id: context.withdrawalId,
+        solana_cluster: context.solanaCluster,
+        token_mint_address: context.tokenMintAddress,
+        decimal: context.decimal,
+        token_symbol: context.tokenSymbol,
+        postings: [
+          { account_type: 'user_budget', owner: context.walletAddress, direction: 'debit', amount: context.amount },
+          { account_type: 'user_reserved', owner: context.walletAddress, direction: 'credit', amount: context.amount }
+        ]
+      });
+
+      if (!reserved) {
+        return false;
+      }
+
+      await this.createTransfer({
+        signature_id: context.withdrawalId,
+        type_tx: 'withdrawal',
+        from: context.payoutWallet,
+        to: context.walletAddress,
+        solana_cluster: context.solanaCluster,
+        amount: context.amount,
+        decimal: context.decimal,
+        token_symbol: context.tokenSymbol,
+        token_mint_address: context.tokenMintAddress,
+        status: 'pending'
+      });
+
+      return true;
+    });
+  }
+
+  /**
+   * Mark a pending withdrawal as paid out and release its reservation.
+   * The payout transaction signature is kept in memo_value.
+   */
+  async completeWithdrawal(withdrawalId: string, payoutSignature: string): Promise<boolean> {
+    return this.settleWithdrawal(withdrawalId, 'completed', payoutSignature);
+  }
+
+  /**
+   * Mark a pending withdrawal as failed and return the reserved amount to
+   * the spendable balance. The failure reason is kept in memo_value.
+   */
+  async failWithdrawal(withdrawalId: string, reason: string): Promise<boolean> {
+    return this.settleWithdrawal(withdrawalId, 'failed', reason);
+  }
+
+  private async settleWithdrawal(withdrawalId: string, status: TransferStatus, memoValue: string): Promise<boolean> {
+    return this.withTransaction(async (db) => {
+      const result = await db.run(
+        `UPDATE transfers SET status = ?, memo_value = ?
+         WHERE signature_id = ? AND type_tx = 'withdrawal' AND status = 'pending'`,
+        [status, memoValue, withdrawalId]
+      );
+
+      // Already settled, or not a withdrawal
+      if ((result.changes ?? 0) === 0) {
+        return false;
+      }
+
+      // A payout leaves the treasury; a failed one goes back to the budget
+      const withdrawal = (await this.getTransfer(withdrawalId))!;
+      const released = await this.postJournalEntry(db, {
+        kind: status === 'failed' ? 'withdrawal-failed' : 'withdrawal-completed',
+        signature_id: withdrawalId,
+        solana_cluster: withdrawal.solana_cluster,
+        token_mint_address: withdrawal.token_mint_address,
+        decimal: withdrawal.decimal,
+        token_symbol: withdrawal.token_symbol,
+        memo: memoValue,
+        postings: [
+          { account_type: 'user_reserved', owner: withdrawal.to, direction: 'debit', amount: withdrawal.amount },
+          status === 'failed'
+            ? { account_type: 'user_budget', owner: withdrawal.to, direction: 'credit', amount: withdrawal.amount }
+            : { account_type: 'treasury', owner: PLATFORM_ACCOUNT_OWNER, direction: 'credit', amount: withdrawal.amount }
+        ]
+      });
+
+      if (!released) {
+        throw new Error(`Reserved budget does not cover withdrawal ${withdrawalId}`);
+      }
+
+      budgetLogger.info({ withdrawalId, status, amount: withdrawal.amount }, "Withdrawal settled");
+      return true;
     });
   }
 
+  async getPendingWithdrawals(limit: number = 50): Promise<TransferRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      `SELECT * FROM transfers WHERE type_tx = 'withdrawal' AND status = 'pending'
+       ORDER BY created_at ASC LIMIT ?`,
+      [limit]
+    );
+
+    return rows.map(row => this.mapRowToTransfer(row));
+  }
+
   // Utility functions
   private mapRowToTransfer(row: any): TransferRecord {
     return {
@@ -397,6 +1563,85 @@ async getAllBudgetBalances(walletAddress: string): Promise<BudgetBalance[]> {
       token_symbol: row.token_symbol,
       token_mint_address: row.token_mint_address,
       memo_value: row.memo_value,
+      status: row.status,
+      agent_key_id: row.agent_key_id ?? undefined,
+      price: row.price ?? undefined,
+      created_at: row.created_at
+    };
+  }
+
+  private mapRowToIdempotencyRecord(row: any): IdempotencyRecord {
+    return {
+      scope: row.scope,
+      idempotency_key: row.idempotency_key,
+      request_hash: row.request_hash,
+      status: row.status,
+      response_status: row.response_status ?? undefined,
+      response_body: row.response_body ? JSON.parse(row.response_body) : undefined,
+      expires_at: row.expires_at,
+      created_at: row.created_at
+    };
+  }
+
+  private mapRowToInvoice(row: any): InvoiceRecord {
+    return {
+      reference: row.reference,
+      article_id: row.article_id,
+      amount: row.amount,
+      token_mint_address: row.token_mint_address,
+      recipient_wallet: row.recipient_wallet,
+      options: JSON.parse(row.options),
+      status: row.status,
+      signature_id: row.signature_id ?? undefined,
+      expires_at: row.expires_at,
+      created_at: row.created_at
+    };
+  }
+
+  private mapRowToPaymentConfirmation(row: any): PaymentConfirmationRecord {
+    return {
+      reference: row.reference,
+      signature_id: row.signature_id,
+      kind: row.kind,
+      payer_address: row.payer_address ?? undefined,
+      article_id: row.article_id ?? undefined,
+      recipient_wallet: row.recipient_wallet,
+      amount: row.amount,
+      options: JSON.parse(row.options),
+      status: row.status,
+      checks: row.checks,
+      next_check_at: row.next_check_at,
+      expires_at: row.expires_at,
+      error: row.error ?? undefined,
+      error_code: row.error_code ?? undefined,
+      result: row.result ? JSON.parse(row.result) : undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  private mapRowToReconciliationRun(row: any): ReconciliationRunRecord {
+    return {
+      id: row.id,
+      wallet_address: row.wallet_address,
+      solana_cluster: row.solana_cluster,
+      status: row.status,
+      window_start: row.window_start,
+      window_end: row.window_end,
+      signatures_scanned: row.signatures_scanned,
+      transfers_checked: row.transfers_checked,
+      discrepancy_count: row.discrepancy_count,
+      error: row.error ?? undefined,
+      started_at: row.started_at,
+      finished_at: row.finished_at ?? undefined
+    };
+  }
+
+  private mapRowToEntitlement(row: any): EntitlementRecord {
+    return {
+      wallet_address: row.wallet_address,
+      article_id: row.article_id,
+      signature_id: row.signature_id,
       created_at: row.created_at
     };
   }
@@ -406,6 +1651,7 @@ async getAllBudgetBalances(walletAddress: string): Promise<BudgetBalance[]> {
       wallet_address: row.wallet_address,
       solana_cluster: row.solana_cluster,
       amount: row.amount,
+      reserved_amount: row.reserved_amount ?? 0,
       decimal: row.decimal,
       token_symbol: row.token_symbol,
       token_mint_address: row.token_mint_address,
@@ -413,21 +1659,759 @@ async getAllBudgetBalances(walletAddress: string): Promise<BudgetBalance[]> {
     };
   }
 
-  // Compatibility functions for existing code
-  async hasReference(refKey: string): Promise<boolean> {
+  // Invoice management functions
+  async createInvoice(invoice: Omit<InvoiceRecord, 'status' | 'signature_id' | 'created_at'>): Promise<void> {
     if (!db) throw new Error('Database not initialized');
 
-    // Check if there's a transfer with this signature_id
-    const transfer = await this.getTransfer(refKey);
-    return transfer !== null;
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.write((db) => db.run(
+      `INSERT INTO invoices (
+        reference, article_id, amount, token_mint_address, recipient_wallet,
+        options, status, expires_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, 'pending', ?, ?)`,
+      [
+        invoice.reference,
+        invoice.article_id,
+        invoice.amount,
+        invoice.token_mint_address,
+        invoice.recipient_wallet,
+        JSON.stringify(invoice.options),
+        invoice.expires_at,
+        now
+      ]
+    ));
+  }
+
+  async getInvoice(reference: string): Promise<InvoiceRecord | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    const row = await db.get('SELECT * FROM invoices WHERE reference = ?', [reference]);
+    return row ? this.mapRowToInvoice(row) : null;
+  }
+
+  /**
+   * Move an invoice from one status to the next. The update only applies if
+   * the invoice is still in `from`, so concurrent proofs cannot both pay it.
+   */
+  async transitionInvoice(
+    reference: string,
+    from: InvoiceStatus,
+    to: InvoiceStatus,
+    updates: { signatureId?: string; tokenMintAddress?: string } = {}
+  ): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    const result = await this.write((db) => db.run(
+      `UPDATE invoices
+       SET status = ?,
+           signature_id = COALESCE(?, signature_id),
+           token_mint_address = COALESCE(?, token_mint_address)
+       WHERE reference = ? AND status = ?`,
+      [to, updates.signatureId ?? null, updates.tokenMintAddress ?? null, reference, from]
+    ));
+
+    return (result.changes ?? 0) > 0;
+  }
+
+  // Payment confirmation functions
+  /**
+   * Queue a payment proof for confirmation. Returns false if the reference
+   * already has one, whatever its status.
+   */
+  async createPaymentConfirmation(
+    confirmation: Omit<PaymentConfirmationRecord, 'status' | 'checks' | 'error' | 'error_code' | 'result' | 'created_at' | 'updated_at'>
+  ): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+
+    const result = await this.write((db) => db.run(
+      `INSERT OR IGNORE INTO payment_confirmations (
+        reference, signature_id, kind, payer_address, article_id, recipient_wallet,
+        amount, options, status, checks, next_check_at, expires_at, created_at, updated_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, 'pending', 0, ?, ?, ?, ?)`,
+      [
+        confirmation.reference,
+        confirmation.signature_id,
+        confirmation.kind,
+        confirmation.payer_address ?? null,
+        confirmation.article_id ?? null,
+        confirmation.recipient_wallet,
+        confirmation.amount,
+        JSON.stringify(confirmation.options),
+        confirmation.next_check_at,
+        confirmation.expires_at,
+        now,
+        now
+      ]
+    ));
+
+    return (result.changes ?? 0) > 0;
   }
 
-  async addReference(refKey: string): Promise<void> {
-    // For compatibility, we don't need to do anything special here
-    // The references are handled through transfer records
-    budgetLogger.debug({ refKey }, "Reference added (compatibility mode)");
+  async getPaymentConfirmation(reference: string): Promise<PaymentConfirmationRecord | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    const row = await db.get('SELECT * FROM payment_confirmations WHERE reference = ?', [reference]);
+    return row ? this.mapRowToPaymentConfirmation(row) : null;
   }
 
+  async getDuePaymentConfirmations(limit: number = 50): Promise<PaymentConfirmationRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const rows = await db.all(
+      `SELECT * FROM payment_confirmations WHERE status = 'pending' AND next_check_at <= ?
+       ORDER BY next_check_at ASC LIMIT ?`,
+      [now, limit]
+    );
+
+    return rows.map(row => this.mapRowToPaymentConfirmation(row));
+  }
+
+  /**
+   * Record a confirmation check. The update only applies while the
+   * confirmation is pending, so a settled one is never reopened.
+   */
+  async updatePaymentConfirmation(
+    reference: string,
+    status: PaymentConfirmationStatus,
+    updates: { checks: number; nextCheckAt: number; error?: string; errorCode?: string; result?: Record<string, unknown> }
+  ): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+
+    const result = await this.write((db) => db.run(
+      `UPDATE payment_confirmations
+       SET status = ?, checks = ?, next_check_at = ?, error = ?, error_code = ?, result = ?, updated_at = ?
+       WHERE reference = ? AND status = 'pending'`,
+      [
+        status,
+        updates.checks,
+        updates.nextCheckAt,
+        updates.error ?? null,
+        updates.errorCode ?? null,
+        updates.result ? JSON.stringify(updates.result) : null,
+        now,
+        reference
+      ]
+    ));
+
+    return (result.changes ?? 0) > 0;
+  }
+
+  // Reconciliation functions
+  async createReconciliationRun(
+    run: Pick<ReconciliationRunRecord, 'id' | 'wallet_address' | 'solana_cluster' | 'window_start' | 'window_end'>
+  ): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.write((db) => db.run(
+      `INSERT INTO reconciliation_runs (id, wallet_address, solana_cluster, status, window_start, window_end, started_at)
+       VALUES (?, ?, ?, 'running', ?, ?, ?)`,
+      [run.id, run.wallet_address, run.solana_cluster, run.window_start, run.window_end, now]
+    ));
+  }
+
+  /**
+   * Store a run's discrepancy report and mark it completed, in one
+   * transaction so a report is never read half written
+   */
+  async completeReconciliationRun(
+    id: string,
+    stats: { signaturesScanned: number; transfersChecked: number },
+    discrepancies: Omit<ReconciliationDiscrepancyRecord, 'run_id' | 'created_at'>[]
+  ): Promise<void> {
+    await this.withTransaction(async (db) => {
+      const now = Math.floor(Date.now() / 1000);
+
+      for (const discrepancy of discrepancies) {
+        await db.run(
+          `INSERT INTO reconciliation_discrepancies (
+            run_id, kind, signature_id, type_tx, token_mint_address, ledger_amount, chain_amount, detail, created_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            id,
+            discrepancy.kind,
+            discrepancy.signature_id,
+            discrepancy.type_tx ?? null,
+            discrepancy.token_mint_address ?? null,
+            discrepancy.ledger_amount ?? null,
+            discrepancy.chain_amount ?? null,
+            discrepancy.detail,
+            now
+          ]
+        );
+      }
+
+      await db.run(
+        `UPDATE reconciliation_runs
+         SET status = 'completed', signatures_scanned = ?, transfers_checked = ?, discrepancy_count = ?, finished_at = ?
+         WHERE id = ?`,
+        [stats.signaturesScanned, stats.transfersChecked, discrepancies.length, now, id]
+      );
+    });
+  }
+
+  async failReconciliationRun(id: string, error: string): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.write((db) => db.run(
+      `UPDATE reconciliation_runs SET status = 'failed', error = ?, finished_at = ? WHERE id = ?`,
+      [error, now, id]
+    ));
+  }
+
+  async getReconciliationRun(id: string): Promise<ReconciliationRunRecord | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    const row = await db.get('SELECT * FROM reconciliation_runs WHERE id = ?', [id]);
+    return row ? this.mapRowToReconciliationRun(row) : null;
+  }
+
+  async getReconciliationRuns(limit: number = 20): Promise<ReconciliationRunRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      'SELECT * FROM reconciliation_runs ORDER BY started_at DESC, rowid DESC LIMIT ?',
+      [limit]
+    );
+
+    return rows.map(row => this.mapRowToReconciliationRun(row));
+  }
+
+  async getReconciliationDiscrepancies(runId: string): Promise<ReconciliationDiscrepancyRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      'SELECT * FROM reconciliation_discrepancies WHERE run_id = ? ORDER BY id ASC',
+      [runId]
+    );
+
+    return rows.map(row => ({
+      run_id: row.run_id,
+      kind: row.kind,
+      signature_id: row.signature_id,
+      type_tx: row.type_tx ?? undefined,
+      token_mint_address: row.token_mint_address ?? undefined,
+      ledger_amount: row.ledger_amount ?? undefined,
+      chain_amount: row.chain_amount ?? undefined,
+      detail: row.detail,
+      created_at: row.created_at
+    }));
+  }
+
+  // Idempotency key functions
+  /**
+   * Claim an idempotency key for a request. Returns null when the key is new
+   * (or had expired) and now belongs to this request, otherwise the record
+   * already stored for it.
+   */
+  async claimIdempotencyKey(
+    scope: string,
+    key: string,
+    requestHash: string,
+    ttlSeconds: number
+  ): Promise<IdempotencyRecord | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+
+    const result = await this.write((db) => db.run(`
+      INSERT INTO idempotency_keys (scope, idempotency_key, request_hash, status, expires_at, created_at)
+      VALUES (?, ?, ?, 'in_progress', ?, ?)
+      ON CONFLICT(scope, idempotency_key) DO UPDATE SET
+        request_hash = excluded.request_hash,
+        status = excluded.status,
+        response_status = NULL,
+        response_body = NULL,
+        expires_at = excluded.expires_at,
+        created_at = excluded.created_at
+      WHERE idempotency_keys.expires_at <= ?
+    `, [scope, key, requestHash, now + ttlSeconds, now, now]));
+
+    if ((result.changes ?? 0) > 0) {
+      return null;
+    }
+
+    const row = await db.get(
+      'SELECT * FROM idempotency_keys WHERE scope = ? AND idempotency_key = ?',
+      [scope, key]
+    );
+
+    return row ? this.mapRowToIdempotencyRecord(row) : null;
+  }
+
+  async completeIdempotencyKey(scope: string, key: string, responseStatus: number, responseBody: any): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    await this.write((db) => db.run(
+      `UPDATE idempotency_keys
+       SET status = 'completed', response_status = ?, response_body = ?
+       WHERE scope = ? AND idempotency_key = ?`,
+      [responseStatus, JSON.stringify(responseBody), scope, key]
+    ));
+  }
+
+  async releaseIdempotencyKey(scope: string, key: string): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    await this.write((db) => db.run('DELETE FROM idempotency_keys WHERE scope = ? AND idempotency_key = ?', [scope, key]));
+  }
+
+  async sweepExpiredIdempotencyKeys(): Promise<number> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const result = await this.write((db) => db.run('DELETE FROM idempotency_keys WHERE expires_at <= ?', [now]));
+
+    return result.changes ?? 0;
+  }
+
+  // Sign-in nonce functions
+  async createAuthNonce(record: AuthNonceRecord): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    await this.write((db) => db.run(
+      'INSERT INTO auth_nonces (nonce, domain, uri, expires_at, created_at) VALUES (?, ?, ?, ?, ?)',
+      [record.nonce, record.domain, record.uri, record.expires_at, record.created_at]
+    ));
+  }
+
+  /**
+   * Get a nonce that has not been used and has not expired
+   */
+  async getAuthNonce(nonce: string): Promise<AuthNonceRecord | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const row = await db.get(
+      'SELECT * FROM auth_nonces WHERE nonce = ? AND expires_at > ?',
+      [nonce, now]
+    );
+
+    return row ? {
+      nonce: row.nonce,
+      domain: row.domain,
+      uri: row.uri,
+      expires_at: row.expires_at,
+      created_at: row.created_at
+    } : null;
+  }
+
+  /**
+   * Use up a nonce. Returns false if it was already used or has expired, so
+   * one signed sign-in message can only open one session.
+   */
+  async consumeAuthNonce(nonce: string): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const result = await this.write((db) => db.run(
+      'DELETE FROM auth_nonces WHERE nonce = ? AND expires_at > ?',
+      [nonce, now]
+    ));
+
+    return (result.changes ?? 0) > 0;
+  }
+
+  async sweepExpiredAuthNonces(): Promise<number> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const result = await this.write((db) => db.run('DELETE FROM auth_nonces WHERE expires_at <= ?', [now]));
+
+    return result.changes ?? 0;
+  }
+
+  // Agent key functions
+  async createAgentKey(agentKey: Omit<AgentKeyRecord, 'spent' | 'revoked_at' | 'created_at'>): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.write((db) => db.run(
+      `INSERT INTO agent_keys (
+        id, key_hash, wallet_address, label, spend_cap, max_article_price,
+        allowed_tags, expires_at, created_at
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        agentKey.id,
+        agentKey.key_hash,
+        agentKey.wallet_address,
+        agentKey.label,
+        agentKey.spend_cap,
+        agentKey.max_article_price,
+        agentKey.allowed_tags ? JSON.stringify(agentKey.allowed_tags) : null,
+        agentKey.expires_at,
+        now
+      ]
+    ));
+
+    budgetLogger.info({ agentKeyId: agentKey.id, walletAddress: agentKey.wallet_address }, "Agent key created");
+  }
+
+  async getAgentKeyByHash(keyHash: string): Promise<AgentKeyRecord | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    const row = await db.get('SELECT * FROM agent_keys WHERE key_hash = ?', [keyHash]);
+    return row ? this.mapRowToAgentKey(row) : null;
+  }
+
+  async getAgentKeysByWallet(walletAddress: string): Promise<AgentKeyRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      'SELECT * FROM agent_keys WHERE wallet_address = ? ORDER BY created_at DESC',
+      [walletAddress]
+    );
+
+    return rows.map(row => this.mapRowToAgentKey(row));
+  }
+
+  /**
+   * Revoke one of a wallet's agent keys. Returns false if the wallet has no
+   * such key or it is already revoked.
+   */
+  async revokeAgentKey(id: string, walletAddress: string): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const result = await this.write((db) => db.run(
+      'UPDATE agent_keys SET revoked_at = ? WHERE id = ? AND wallet_address = ? AND revoked_at IS NULL',
+      [now, id, walletAddress]
+    ));
+
+    return (result.changes ?? 0) > 0;
+  }
+
+  private mapRowToAgentKey(row: any): AgentKeyRecord {
+    return {
+      id: row.id,
+      key_hash: row.key_hash,
+      wallet_address: row.wallet_address,
+      label: row.label ?? undefined,
+      spend_cap: row.spend_cap,
+      spent: row.spent,
+      max_article_price: row.max_article_price ?? undefined,
+      allowed_tags: row.allowed_tags ? JSON.parse(row.allowed_tags) : undefined,
+      expires_at: row.expires_at,
+      revoked_at: row.revoked_at ?? undefined,
+      created_at: row.created_at
+    };
+  }
+
+  // Spending limit functions
+  async getSpendingLimits(walletAddress: string): Promise<SpendingLimitRecord | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    const row = await db.get('SELECT * FROM spending_limits WHERE wallet_address = ?', [walletAddress]);
+    return row ? this.mapRowToSpendingLimits(row) : null;
+  }
+
+  /**
+   * Replace a wallet's spending limits; a limit left undefined is removed.
+   * What the wallet already spent this day and month is kept.
+   */
+  async setSpendingLimits(
+    walletAddress: string,
+    limits: Pick<SpendingLimitRecord, 'daily_limit' | 'monthly_limit' | 'max_article_price'>
+  ): Promise<SpendingLimitRecord> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.write((db) => db.run(
+      `INSERT INTO spending_limits (wallet_address, daily_limit, monthly_limit, max_article_price, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(wallet_address) DO UPDATE SET
+         daily_limit = excluded.daily_limit,
+         monthly_limit = excluded.monthly_limit,
+         max_article_price = excluded.max_article_price,
+         updated_at = excluded.updated_at`,
+      [walletAddress, limits.daily_limit ?? null, limits.monthly_limit ?? null, limits.max_article_price ?? null, now]
+    ));
+
+    budgetLogger.info({ walletAddress, ...limits }, "Spending limits updated");
+    return (await this.getSpendingLimits(walletAddress))!;
+  }
+
+  private mapRowToSpendingLimits(row: any): SpendingLimitRecord {
+    return {
+      wallet_address: row.wallet_address,
+      daily_limit: row.daily_limit ?? undefined,
+      monthly_limit: row.monthly_limit ?? undefined,
+      max_article_price: row.max_article_price ?? undefined,
+      day: row.day ?? undefined,
+      day_spent: row.day_spent,
+      month: row.month ?? undefined,
+      month_spent: row.month_spent,
+      updated_at: row.updated_at
+    };
+  }
+
+  // Webhook functions
+  async createWebhook(webhook: Omit<WebhookRecord, 'created_at'>): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+
+    await this.write((db) => db.run(
+      `INSERT INTO webhooks (id, wallet_address, url, secret, events, low_balance_threshold, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        webhook.id,
+        webhook.wallet_address,
+        webhook.url,
+        webhook.secret,
+        JSON.stringify(webhook.events),
+        webhook.low_balance_threshold,
+        now
+      ]
+    ));
+  }
+
+  async getWebhook(id: string): Promise<WebhookRecord | null> {
+    if (!db) throw new Error('Database not initialized');
+
+    const row = await db.get('SELECT * FROM webhooks WHERE id = ?', [id]);
+    return row ? this.mapRowToWebhook(row) : null;
+  }
+
+  async getWebhooksByWallet(walletAddress: string): Promise<WebhookRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      'SELECT * FROM webhooks WHERE wallet_address = ? ORDER BY created_at DESC',
+      [walletAddress]
+    );
+
+    return rows.map(row => this.mapRowToWebhook(row));
+  }
+
+  /**
+   * Delete one of a wallet's webhooks; deliveries still pending for it are
+   * marked failed. Returns false if the wallet has no such webhook.
+   */
+  async deleteWebhook(id: string, walletAddress: string): Promise<boolean> {
+    return this.withTransaction(async (db) => {
+      const result = await db.run('DELETE FROM webhooks WHERE id = ? AND wallet_address = ?', [id, walletAddress]);
+      if ((result.changes ?? 0) === 0) {
+        return false;
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      await db.run(
+        `UPDATE webhook_deliveries SET status = 'failed', last_error = 'Webhook deleted', updated_at = ?
+         WHERE webhook_id = ? AND status = 'pending'`,
+        [now, id]
+      );
+      return true;
+    });
+  }
+
+  async createWebhookDeliveries(deliveries: Omit<WebhookDeliveryRecord, 'status' | 'attempts' | 'created_at' | 'updated_at'>[]): Promise<void> {
+    if (deliveries.length === 0) {
+      return;
+    }
+
+    await this.withTransaction(async (db) => {
+      const now = Math.floor(Date.now() / 1000);
+      for (const delivery of deliveries) {
+        await db.run(
+          `INSERT INTO webhook_deliveries (
+            id, webhook_id, event_id, event_type, payload, next_attempt_at, created_at, updated_at
+          ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+          [delivery.id, delivery.webhook_id, delivery.event_id, delivery.event_type, delivery.payload, delivery.next_attempt_at, now, now]
+        );
+      }
+    });
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due, oldest first
+   */
+  async getDueWebhookDeliveries(limit: number = 50): Promise<WebhookDeliveryRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const rows = await db.all(
+      `SELECT * FROM webhook_deliveries WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at ASC LIMIT ?`,
+      [now, limit]
+    );
+
+    return rows.map(row => this.mapRowToWebhookDelivery(row));
+  }
+
+  async getWebhookDeliveries(webhookId: string, limit: number = 50): Promise<WebhookDeliveryRecord[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      'SELECT * FROM webhook_deliveries WHERE webhook_id = ? ORDER BY created_at DESC LIMIT ?',
+      [webhookId, limit]
+    );
+
+    return rows.map(row => this.mapRowToWebhookDelivery(row));
+  }
+
+  /**
+   * Log a delivery attempt and move the delivery to `status`; a pending
+   * delivery is tried again at `nextAttemptAt`
+   */
+  async recordWebhookAttempt(
+    attempt: Omit<WebhookDeliveryAttempt, 'created_at'>,
+    status: WebhookDeliveryStatus,
+    nextAttemptAt: number
+  ): Promise<void> {
+    await this.withTransaction(async (db) => {
+      const now = Math.floor(Date.now() / 1000);
+
+      await db.run(
+        `INSERT INTO webhook_delivery_attempts (delivery_id, attempt, status_code, error, duration_ms, created_at)
+         VALUES (?, ?, ?, ?, ?, ?)`,
+        [attempt.delivery_id, attempt.attempt, attempt.status_code, attempt.error, attempt.duration_ms, now]
+      );
+
+      await db.run(
+        `UPDATE webhook_deliveries
+         SET status = ?, attempts = ?, next_attempt_at = ?, last_status_code = ?, last_error = ?, updated_at = ?
+         WHERE id = ?`,
+        [status, attempt.attempt, nextAttemptAt, attempt.status_code, attempt.error, now, attempt.delivery_id]
+      );
+    });
+  }
+
+  async getWebhookDeliveryAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+    if (!db) throw new Error('Database not initialized');
+
+    const rows = await db.all(
+      'SELECT * FROM webhook_delivery_attempts WHERE delivery_id = ? ORDER BY attempt ASC',
+      [deliveryId]
+    );
+
+    return rows.map(row => ({
+      delivery_id: row.delivery_id,
+      attempt: row.attempt,
+      status_code: row.status_code ?? undefined,
+      error: row.error ?? undefined,
+      duration_ms: row.duration_ms,
+      created_at: row.created_at
+    }));
+  }
+
+  private mapRowToWebhook(row: any): WebhookRecord {
+    return {
+      id: row.id,
+      wallet_address: row.wallet_address,
+      url: row.url,
+      secret: row.secret,
+      events: JSON.parse(row.events),
+      low_balance_threshold: row.low_balance_threshold ?? undefined,
+      created_at: row.created_at
+    };
+  }
+
+  private mapRowToWebhookDelivery(row: any): WebhookDeliveryRecord {
+    return {
+      id: row.id,
+      webhook_id: row.webhook_id,
+      event_id: row.event_id,
+      event_type: row.event_type,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      next_attempt_at: row.next_attempt_at,
+      last_status_code: row.last_status_code ?? undefined,
+      last_error: row.last_error ?? undefined,
+      created_at: row.created_at,
+      updated_at: row.updated_at
+    };
+  }
+
+  // Replay protection functions
+  async hasReference(refKey: string): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const row = await db.get(
+      'SELECT 1 FROM payment_references WHERE ref_key = ? AND (expires_at IS NULL OR expires_at > ?)',
+      [refKey, now]
+    );
+
+    return !!row;
+  }
+
+  /**
+   * Claim a reference. Returns false when an unexpired claim already exists,
+   * so two requests racing on the same reference cannot both succeed.
+   */
+  async addReference(refKey: string, options: ReferenceOptions = {}): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const expiresAt = options.ex ? now + options.ex : null;
+
+    const result = await this.write((db) => db.run(`
+      INSERT INTO payment_references (ref_key, signature_id, created_at, expires_at)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(ref_key) DO UPDATE SET
+        signature_id = excluded.signature_id,
+        created_at = excluded.created_at,
+        expires_at = excluded.expires_at
+      WHERE payment_references.expires_at IS NOT NULL AND payment_references.expires_at <= ?
+    `, [refKey, options.signature ?? null, now, expiresAt, now]));
+
+    const claimed = (result.changes ?? 0) > 0;
+    budgetLogger.debug({ refKey, signature: options.signature, expiresAt, claimed }, "Payment reference claimed");
+    return claimed;
+  }
+
+  async delReference(refKey: string): Promise<void> {
+    if (!db) throw new Error('Database not initialized');
+
+    await this.write((db) => db.run('DELETE FROM payment_references WHERE ref_key = ?', [refKey]));
+  }
+
+  /**
+   * Whether a transaction signature has already paid for something, either
+   * under a live reference or as a recorded transfer
+   */
+  async isSignatureUsed(signature: string): Promise<boolean> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const row = await db.get(`
+      SELECT 1 FROM payment_references
+      WHERE signature_id = ? AND (expires_at IS NULL OR expires_at > ?)
+      UNION ALL
+      SELECT 1 FROM transfers WHERE signature_id = ?
+      LIMIT 1
+    `, [signature, now, signature]);
+
+    return !!row;
+  }
+
+  async sweepExpiredReferences(): Promise<number> {
+    if (!db) throw new Error('Database not initialized');
+
+    const now = Math.floor(Date.now() / 1000);
+    const result = await this.write((db) => db.run(
+      'DELETE FROM payment_references WHERE expires_at IS NOT NULL AND expires_at <= ?',
+      [now]
+    ));
+
+    return result.changes ?? 0;
+  }
+
+  // Compatibility functions for existing code
+
   async getBudget(payerPubkey: string): Promise<string> {
     // For compatibility, return the sum of all budget balances for this wallet
     if (!db) throw new Error('Database not initialized');
@@ -445,7 +2429,7 @@ async getAllBudgetBalances(walletAddress: string): Promise<BudgetBalance[]> {
     budgetLogger.warn({
       payerPubkey,
       amount,
-      message: "setBudget called - consider using updateBudgetBalance instead"
+      message: "setBudget called - budgets only change through ledger postings"
     }, "Legacy setBudget function used");
   }
 
@@ -1,5 +1,39 @@
 import { budgetLogger } from './logger';
 import { sqliteStorage } from './sqlite-storage';
+import {
+  AccountPostingRecord,
+  ArticleAccountTotal,
+  ArticleTransferTotal,
+  EntitlementRecord,
+  ReferenceOptions,
+  InvoiceRecord,
+  InvoiceStatus,
+  PaymentConfirmationRecord,
+  PaymentConfirmationStatus,
+  IdempotencyRecord,
+  TransferRecord,
+  WithdrawalContext,
+  AuthNonceRecord,
+  AgentKeyRecord,
+  SpendingLimitRecord,
+  WebhookRecord,
+  WebhookDeliveryRecord,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryStatus,
+  TransferFilter,
+  TransferCursor,
+  TransferPage,
+  TransferTotal,
+  ReconciliationRunRecord,
+  ReconciliationDiscrepancyRecord,
+  BudgetBalance,
+  JournalEntryKind,
+  JournalEntryRecord,
+  JournalEntryTotals,
+  LedgerAccountBalance,
+  LedgerAccountType,
+  RevenueSplit
+} from './types';
 
 /**
  * SQLite-only Storage Service
@@ -45,9 +79,7 @@ export class StorageService {
     try {
       // Handle reference keys (ref_*)
       if (key.startsWith("ref_")) {
-        const reference = key.substring(4); // Remove "ref_" prefix
-        const hasRef = await sqliteStorage.hasReference(reference);
-        return hasRef;
+        return await sqliteStorage.hasReference(key);
       }
 
       // Handle budget keys (budget_*)
@@ -69,16 +101,15 @@ export class StorageService {
    *
    * @param key - Storage key
    * @param value - Value to store (boolean for references, string for budgets)
-   * @param options - Additional options (not used in SQLite implementation)
+   * @param options - Reference options such as `{ ex: 300 }`
    */
-  async set(key: string, value: string | boolean, options?: any): Promise<void> {
+  async set(key: string, value: string | boolean, options?: ReferenceOptions): Promise<void> {
     this.ensureInitialized();
 
     try {
       // Handle reference keys (ref_*)
       if (key.startsWith("ref_") && value === true) {
-        const reference = key.substring(4); // Remove "ref_" prefix
-        await sqliteStorage.addReference(reference);
+        await sqliteStorage.addReference(key, options);
         return;
       }
 
@@ -89,44 +120,743 @@ export class StorageService {
         return;
       }
 
-      budgetLogger.warn({ key, value }, "Attempted to set unsupported key-value pair");
+      budgetLogger.warn({ key, value }, "Attempted to set unsupported key-value pair");
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, key, value }, "Storage set operation failed");
+      throw new Error(`Failed to set value for key '${key}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Claim an idempotency key for a request
+   *
+   * @param scope - Endpoint the key belongs to
+   * @param key - Client-supplied Idempotency-Key
+   * @param requestHash - Hash of the request body
+   * @param ttlSeconds - How long the key is remembered
+   * @returns Promise resolving to null if the key was claimed, or the existing record
+   */
+  async claimIdempotencyKey(
+    scope: string,
+    key: string,
+    requestHash: string,
+    ttlSeconds: number
+  ): Promise<IdempotencyRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.claimIdempotencyKey(scope, key, requestHash, ttlSeconds);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, scope, key }, "Storage claimIdempotencyKey operation failed");
+      throw new Error(`Failed to claim idempotency key: ${error.message}`);
+    }
+  }
+
+  /**
+   * Store the response for a claimed idempotency key
+   *
+   * @param scope - Endpoint the key belongs to
+   * @param key - Client-supplied Idempotency-Key
+   * @param responseStatus - HTTP status sent
+   * @param responseBody - JSON body sent
+   */
+  async completeIdempotencyKey(scope: string, key: string, responseStatus: number, responseBody: any): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.completeIdempotencyKey(scope, key, responseStatus, responseBody);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, scope, key }, "Storage completeIdempotencyKey operation failed");
+      throw new Error(`Failed to store idempotent response: ${error.message}`);
+    }
+  }
+
+  /**
+   * Forget a claimed idempotency key so the request can be retried
+   *
+   * @param scope - Endpoint the key belongs to
+   * @param key - Client-supplied Idempotency-Key
+   */
+  async releaseIdempotencyKey(scope: string, key: string): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.releaseIdempotencyKey(scope, key);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, scope, key }, "Storage releaseIdempotencyKey operation failed");
+      throw new Error(`Failed to release idempotency key: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete expired idempotency keys
+   *
+   * @returns Promise resolving to the number of keys removed
+   */
+  async sweepExpiredIdempotencyKeys(): Promise<number> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.sweepExpiredIdempotencyKeys();
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage sweepExpiredIdempotencyKeys operation failed");
+      throw new Error(`Failed to sweep expired idempotency keys: ${error.message}`);
+    }
+  }
+
+  /**
+   * Store a newly issued sign-in nonce
+   *
+   * @param record - Nonce with the domain and URI it was issued for
+   */
+  async createAuthNonce(record: AuthNonceRecord): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.createAuthNonce(record);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage createAuthNonce operation failed");
+      throw new Error(`Failed to create sign-in nonce: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get an unused, unexpired sign-in nonce
+   *
+   * @param nonce - Nonce issued by /api/auth/nonce
+   * @returns Promise resolving to the nonce record or null
+   */
+  async getAuthNonce(nonce: string): Promise<AuthNonceRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getAuthNonce(nonce);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage getAuthNonce operation failed");
+      throw new Error(`Failed to get sign-in nonce: ${error.message}`);
+    }
+  }
+
+  /**
+   * Use up a sign-in nonce
+   *
+   * @param nonce - Nonce issued by /api/auth/nonce
+   * @returns Promise resolving to false if it was already used or has expired
+   */
+  async consumeAuthNonce(nonce: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.consumeAuthNonce(nonce);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage consumeAuthNonce operation failed");
+      throw new Error(`Failed to consume sign-in nonce: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete expired sign-in nonces
+   *
+   * @returns Promise resolving to the number of nonces removed
+   */
+  async sweepExpiredAuthNonces(): Promise<number> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.sweepExpiredAuthNonces();
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage sweepExpiredAuthNonces operation failed");
+      throw new Error(`Failed to sweep expired sign-in nonces: ${error.message}`);
+    }
+  }
+
+  /**
+   * Store a new agent key
+   *
+   * @param agentKey - Key limits, with the hash of the key itself
+   */
+  async createAgentKey(agentKey: Omit<AgentKeyRecord, 'spent' | 'revoked_at' | 'created_at'>): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.createAgentKey(agentKey);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, walletAddress: agentKey.wallet_address }, "Storage createAgentKey operation failed");
+      throw new Error(`Failed to create agent key: ${error.message}`);
+    }
+  }
+
+  /**
+   * Look up an agent key by the hash of the key
+   *
+   * @param keyHash - SHA-256 hash of the X-Agent-Key value
+   * @returns Promise resolving to the key, including revoked and expired ones, or null
+   */
+  async getAgentKeyByHash(keyHash: string): Promise<AgentKeyRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getAgentKeyByHash(keyHash);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage getAgentKeyByHash operation failed");
+      throw new Error(`Failed to get agent key: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get all agent keys a wallet has created
+   *
+   * @param walletAddress - Wallet address
+   * @returns Promise resolving to the wallet's agent keys, newest first
+   */
+  async getAgentKeysByWallet(walletAddress: string): Promise<AgentKeyRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getAgentKeysByWallet(walletAddress);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, walletAddress }, "Storage getAgentKeysByWallet operation failed");
+      throw new Error(`Failed to get agent keys: ${error.message}`);
+    }
+  }
+
+  /**
+   * Revoke one of a wallet's agent keys
+   *
+   * @param id - Agent key ID
+   * @param walletAddress - Wallet that owns the key
+   * @returns Promise resolving to false if there was no active key to revoke
+   */
+  async revokeAgentKey(id: string, walletAddress: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.revokeAgentKey(id, walletAddress);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, id, walletAddress }, "Storage revokeAgentKey operation failed");
+      throw new Error(`Failed to revoke agent key '${id}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a wallet's spending limits and what it spent in the current period
+   *
+   * @param walletAddress - Wallet address
+   * @returns Promise resolving to the limits, or null if the wallet has neither limits nor budget spending
+   */
+  async getSpendingLimits(walletAddress: string): Promise<SpendingLimitRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getSpendingLimits(walletAddress);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, walletAddress }, "Storage getSpendingLimits operation failed");
+      throw new Error(`Failed to get spending limits for wallet '${walletAddress}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Replace a wallet's spending limits
+   *
+   * @param walletAddress - Wallet address
+   * @param limits - Daily, monthly and per-article limits; undefined removes a limit
+   * @returns Promise resolving to the stored limits
+   */
+  async setSpendingLimits(
+    walletAddress: string,
+    limits: Pick<SpendingLimitRecord, 'daily_limit' | 'monthly_limit' | 'max_article_price'>
+  ): Promise<SpendingLimitRecord> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.setSpendingLimits(walletAddress, limits);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, walletAddress }, "Storage setSpendingLimits operation failed");
+      throw new Error(`Failed to set spending limits for wallet '${walletAddress}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Store a new webhook subscription
+   *
+   * @param webhook - Subscription details, including its signing secret
+   */
+  async createWebhook(webhook: Omit<WebhookRecord, 'created_at'>): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.createWebhook(webhook);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, walletAddress: webhook.wallet_address }, "Storage createWebhook operation failed");
+      throw new Error(`Failed to create webhook: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get a webhook subscription by ID
+   *
+   * @param id - Webhook ID
+   * @returns Promise resolving to the webhook or null
+   */
+  async getWebhook(id: string): Promise<WebhookRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getWebhook(id);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, id }, "Storage getWebhook operation failed");
+      throw new Error(`Failed to get webhook '${id}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Get all webhook subscriptions of a wallet
+   *
+   * @param walletAddress - Wallet address
+   * @returns Promise resolving to the wallet's webhooks, newest first
+   */
+  async getWebhooksByWallet(walletAddress: string): Promise<WebhookRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getWebhooksByWallet(walletAddress);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, walletAddress }, "Storage getWebhooksByWallet operation failed");
+      throw new Error(`Failed to get webhooks: ${error.message}`);
+    }
+  }
+
+  /**
+   * Delete one of a wallet's webhooks
+   *
+   * @param id - Webhook ID
+   * @param walletAddress - Wallet that owns the webhook
+   * @returns Promise resolving to false if the wallet has no such webhook
+   */
+  async deleteWebhook(id: string, walletAddress: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.deleteWebhook(id, walletAddress);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, id, walletAddress }, "Storage deleteWebhook operation failed");
+      throw new Error(`Failed to delete webhook '${id}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Queue webhook deliveries
+   *
+   * @param deliveries - One delivery per event per webhook
+   */
+  async createWebhookDeliveries(deliveries: Omit<WebhookDeliveryRecord, 'status' | 'attempts' | 'created_at' | 'updated_at'>[]): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.createWebhookDeliveries(deliveries);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, count: deliveries.length }, "Storage createWebhookDeliveries operation failed");
+      throw new Error(`Failed to queue webhook deliveries: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get pending webhook deliveries that are due for an attempt
+   *
+   * @param limit - Maximum number of deliveries to return
+   * @returns Promise resolving to due deliveries, oldest first
+   */
+  async getDueWebhookDeliveries(limit: number = 50): Promise<WebhookDeliveryRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getDueWebhookDeliveries(limit);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage getDueWebhookDeliveries operation failed");
+      throw new Error(`Failed to get due webhook deliveries: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the latest deliveries of a webhook
+   *
+   * @param webhookId - Webhook ID
+   * @param limit - Maximum number of deliveries to return
+   * @returns Promise resolving to deliveries, newest first
+   */
+  async getWebhookDeliveries(webhookId: string, limit: number = 50): Promise<WebhookDeliveryRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getWebhookDeliveries(webhookId, limit);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, webhookId }, "Storage getWebhookDeliveries operation failed");
+      throw new Error(`Failed to get webhook deliveries: ${error.message}`);
+    }
+  }
+
+  /**
+   * Log a webhook delivery attempt and update the delivery
+   *
+   * @param attempt - Attempt number, response status or error, and duration
+   * @param status - Delivery status after this attempt
+   * @param nextAttemptAt - When a still pending delivery is tried again
+   */
+  async recordWebhookAttempt(
+    attempt: Omit<WebhookDeliveryAttempt, 'created_at'>,
+    status: WebhookDeliveryStatus,
+    nextAttemptAt: number
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.recordWebhookAttempt(attempt, status, nextAttemptAt);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, deliveryId: attempt.delivery_id }, "Storage recordWebhookAttempt operation failed");
+      throw new Error(`Failed to record webhook attempt: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the attempt log of a webhook delivery
+   *
+   * @param deliveryId - Delivery ID
+   * @returns Promise resolving to the attempts, first one first
+   */
+  async getWebhookDeliveryAttempts(deliveryId: string): Promise<WebhookDeliveryAttempt[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getWebhookDeliveryAttempts(deliveryId);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, deliveryId }, "Storage getWebhookDeliveryAttempts operation failed");
+      throw new Error(`Failed to get webhook delivery attempts: ${error.message}`);
+    }
+  }
+
+  /**
+   * Persist a newly issued invoice in the pending state
+   *
+   * @param invoice - Invoice details
+   */
+  async createInvoice(invoice: Omit<InvoiceRecord, 'status' | 'signature_id' | 'created_at'>): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.createInvoice(invoice);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, reference: invoice.reference }, "Storage createInvoice operation failed");
+      throw new Error(`Failed to create invoice: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get an invoice by its reference
+   *
+   * @param reference - Invoice reference UUID
+   * @returns Promise resolving to the invoice or null
+   */
+  async getInvoice(reference: string): Promise<InvoiceRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getInvoice(reference);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, reference }, "Storage getInvoice operation failed");
+      throw new Error(`Failed to get invoice: ${error.message}`);
+    }
+  }
+
+  /**
+   * Move an invoice to its next status if it is still in the expected one
+   *
+   * @param reference - Invoice reference UUID
+   * @param from - Status the invoice must currently have
+   * @param to - New status
+   * @param updates - Paying signature and mint to record with the transition
+   * @returns Promise resolving to false if the invoice was not in `from`
+   */
+  async transitionInvoice(
+    reference: string,
+    from: InvoiceStatus,
+    to: InvoiceStatus,
+    updates?: { signatureId?: string; tokenMintAddress?: string }
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.transitionInvoice(reference, from, to, updates);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, reference, from, to }, "Storage transitionInvoice operation failed");
+      throw new Error(`Failed to update invoice: ${error.message}`);
+    }
+  }
+
+  /**
+   * Queue a payment proof whose transaction is not on chain yet
+   *
+   * @param confirmation - Proof, payment options and first check time
+   * @returns Promise resolving to false if the reference is already queued
+   */
+  async createPaymentConfirmation(
+    confirmation: Omit<PaymentConfirmationRecord, 'status' | 'checks' | 'error' | 'error_code' | 'result' | 'created_at' | 'updated_at'>
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.createPaymentConfirmation(confirmation);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, reference: confirmation.reference }, "Storage createPaymentConfirmation operation failed");
+      throw new Error(`Failed to create payment confirmation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the payment confirmation queued for a reference
+   *
+   * @param reference - Payment reference UUID
+   * @returns Promise resolving to the confirmation or null
+   */
+  async getPaymentConfirmation(reference: string): Promise<PaymentConfirmationRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getPaymentConfirmation(reference);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, reference }, "Storage getPaymentConfirmation operation failed");
+      throw new Error(`Failed to get payment confirmation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get pending payment confirmations whose next check is due
+   *
+   * @param limit - Maximum number of confirmations to return
+   * @returns Promise resolving to the due confirmations, oldest first
+   */
+  async getDuePaymentConfirmations(limit?: number): Promise<PaymentConfirmationRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getDuePaymentConfirmations(limit);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage getDuePaymentConfirmations operation failed");
+      throw new Error(`Failed to get due payment confirmations: ${error.message}`);
+    }
+  }
+
+  /**
+   * Record the outcome of a confirmation check on a pending confirmation
+   *
+   * @param reference - Payment reference UUID
+   * @param status - New status; `pending` schedules another check
+   * @param updates - Check count, next check time and the error or result
+   * @returns Promise resolving to false if the confirmation was no longer pending
+   */
+  async updatePaymentConfirmation(
+    reference: string,
+    status: PaymentConfirmationStatus,
+    updates: { checks: number; nextCheckAt: number; error?: string; errorCode?: string; result?: Record<string, unknown> }
+  ): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.updatePaymentConfirmation(reference, status, updates);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, reference, status }, "Storage updatePaymentConfirmation operation failed");
+      throw new Error(`Failed to update payment confirmation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Start a reconciliation run
+   *
+   * @param run - Run id, wallet, cluster and time window
+   */
+  async createReconciliationRun(
+    run: Pick<ReconciliationRunRecord, 'id' | 'wallet_address' | 'solana_cluster' | 'window_start' | 'window_end'>
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.createReconciliationRun(run);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, runId: run.id }, "Storage createReconciliationRun operation failed");
+      throw new Error(`Failed to create reconciliation run: ${error.message}`);
+    }
+  }
+
+  /**
+   * Store a run's discrepancies and mark it completed
+   *
+   * @param id - Run id
+   * @param stats - Signatures scanned and ledger transfers checked
+   * @param discrepancies - Discrepancies found by the run
+   */
+  async completeReconciliationRun(
+    id: string,
+    stats: { signaturesScanned: number; transfersChecked: number },
+    discrepancies: Omit<ReconciliationDiscrepancyRecord, 'run_id' | 'created_at'>[]
+  ): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.completeReconciliationRun(id, stats, discrepancies);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, runId: id }, "Storage completeReconciliationRun operation failed");
+      throw new Error(`Failed to complete reconciliation run: ${error.message}`);
+    }
+  }
+
+  /**
+   * Mark a reconciliation run as failed
+   *
+   * @param id - Run id
+   * @param error - Why the run failed
+   */
+  async failReconciliationRun(id: string, error: string): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.failReconciliationRun(id, error);
+    } catch (storageError: any) {
+      budgetLogger.error({ error: storageError.message, runId: id }, "Storage failReconciliationRun operation failed");
+      throw new Error(`Failed to update reconciliation run: ${storageError.message}`);
+    }
+  }
+
+  /**
+   * Get a reconciliation run by id
+   *
+   * @param id - Run id
+   * @returns Promise resolving to the run or null
+   */
+  async getReconciliationRun(id: string): Promise<ReconciliationRunRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getReconciliationRun(id);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, runId: id }, "Storage getReconciliationRun operation failed");
+      throw new Error(`Failed to get reconciliation run: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the most recent reconciliation runs
+   *
+   * @param limit - Maximum number of runs to return
+   * @returns Promise resolving to the runs, newest first
+   */
+  async getReconciliationRuns(limit?: number): Promise<ReconciliationRunRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getReconciliationRuns(limit);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage getReconciliationRuns operation failed");
+      throw new Error(`Failed to get reconciliation runs: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the discrepancy report of a reconciliation run
+   *
+   * @param runId - Run id
+   * @returns Promise resolving to the run's discrepancies
+   */
+  async getReconciliationDiscrepancies(runId: string): Promise<ReconciliationDiscrepancyRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getReconciliationDiscrepancies(runId);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, runId }, "Storage getReconciliationDiscrepancies operation failed");
+      throw new Error(`Failed to get reconciliation discrepancies: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check if a reference exists and has not expired
+   *
+   * @param refKey - Reference key to check
+   * @returns Promise resolving to true if reference exists
+   */
+  async hasReference(refKey: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.hasReference(refKey);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, refKey }, "Storage hasReference operation failed");
+      throw new Error(`Failed to check reference '${refKey}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Add a reference to prevent replay attacks
+   *
+   * @param refKey - Reference key to add
+   * @param options - `ex` lifetime in seconds and the paying transaction `signature`
+   * @returns Promise resolving to false if the reference was already claimed
+   */
+  async addReference(refKey: string, options?: ReferenceOptions): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.addReference(refKey, options);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, refKey }, "Storage addReference operation failed");
+      throw new Error(`Failed to add reference '${refKey}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Release a reference, e.g. when the payment it guarded could not be recorded
+   *
+   * @param refKey - Reference key to remove
+   */
+  async delReference(refKey: string): Promise<void> {
+    this.ensureInitialized();
+
+    try {
+      await sqliteStorage.delReference(refKey);
     } catch (error: any) {
-      budgetLogger.error({ error: error.message, key, value }, "Storage set operation failed");
-      throw new Error(`Failed to set value for key '${key}': ${error.message}`);
+      budgetLogger.error({ error: error.message, refKey }, "Storage delReference operation failed");
+      throw new Error(`Failed to delete reference '${refKey}': ${error.message}`);
     }
   }
 
   /**
-   * Check if a reference exists
+   * Check if a transaction signature has already been used for a payment
    *
-   * @param refKey - Reference key to check
-   * @returns Promise resolving to true if reference exists
+   * @param signature - Transaction signature
+   * @returns Promise resolving to true if the signature was already claimed
    */
-  async hasReference(refKey: string): Promise<boolean> {
+  async isSignatureUsed(signature: string): Promise<boolean> {
     this.ensureInitialized();
 
     try {
-      return await sqliteStorage.hasReference(refKey);
+      return await sqliteStorage.isSignatureUsed(signature);
     } catch (error: any) {
-      budgetLogger.error({ error: error.message, refKey }, "Storage hasReference operation failed");
-      throw new Error(`Failed to check reference '${refKey}': ${error.message}`);
+      budgetLogger.error({ error: error.message, signature }, "Storage isSignatureUsed operation failed");
+      throw new Error(`Failed to check signature '${signature}': ${error.message}`);
     }
   }
 
   /**
-   * Add a reference to prevent replay attacks
+   * Delete expired references
    *
-   * @param refKey - Reference key to add
-   * @param options - Additional options (not used in SQLite implementation)
+   * @returns Promise resolving to the number of references removed
    */
-  async addReference(refKey: string, options?: any): Promise<void> {
+  async sweepExpiredReferences(): Promise<number> {
     this.ensureInitialized();
 
     try {
-      await sqliteStorage.addReference(refKey);
+      return await sqliteStorage.sweepExpiredReferences();
     } catch (error: any) {
-      budgetLogger.error({ error: error.message, refKey }, "Storage addReference operation failed");
-      throw new Error(`Failed to add reference '${refKey}': ${error.message}`);
+      budgetLogger.error({ error: error.message }, "Storage sweepExpiredReferences operation failed");
+      throw new Error(`Failed to sweep expired references: ${error.message}`);
     }
   }
 
@@ -182,7 +912,8 @@ export class StorageService {
   }
 
   /**
-   * Process an article payment
+   * Process an article payment. The budget check, debit and transfer record
+   * are committed together, so concurrent payments cannot overspend.
    *
    * @param context - Article payment context
    * @returns Promise resolving to payment result
@@ -211,6 +942,7 @@ export class StorageService {
    * @param tokenMintAddress - Token mint address
    * @param articleId - Article identifier
    * @param memoValue - Optional memo value
+   * @param splits - How the payment divides between payees and the platform fee
    */
   async processOneTimeArticlePayment(
     signatureId: string,
@@ -222,14 +954,15 @@ export class StorageService {
     tokenSymbol: string,
     tokenMintAddress: string,
     articleId: string,
-    memoValue?: string
+    memoValue?: string,
+    splits?: RevenueSplit[]
   ): Promise<void> {
     this.ensureInitialized();
 
     try {
       return await sqliteStorage.processOneTimeArticlePayment(
         signatureId, from, to, solanaCluster,
-        amount, decimal, tokenSymbol, tokenMintAddress, articleId, memoValue
+        amount, decimal, tokenSymbol, tokenMintAddress, articleId, memoValue, splits
       );
     } catch (error: any) {
       budgetLogger.error({
@@ -245,6 +978,134 @@ export class StorageService {
     }
   }
 
+  /**
+   * Refund an article payment back to the payer's budget
+   *
+   * @param signatureId - Signature ID of the article transfer to compensate
+   * @param reason - Why the refund was issued (stored as the refund memo)
+   * @returns Promise resolving to the refund signature ID, or null if nothing was refundable
+   */
+  async refundTransfer(signatureId: string, reason: string): Promise<string | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.refundTransfer(signatureId, reason);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, signatureId, reason }, "Storage refundTransfer operation failed");
+      throw new Error(`Failed to refund transfer '${signatureId}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Record a pending withdrawal and reserve its amount from the budget
+   *
+   * @param context - Withdrawal details, with the amount in the token's smallest unit
+   * @returns Promise resolving to false if the budget does not cover the amount
+   */
+  async requestWithdrawal(context: WithdrawalContext): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.requestWithdrawal(context);
+    } catch (error: any) {
+      budgetLogger.error({
+        error: error.message,
+        withdrawalId: context.withdrawalId,
+        walletAddress: context.walletAddress,
+        amount: context.amount
+      }, "Storage requestWithdrawal operation failed");
+      throw new Error(`Failed to request withdrawal: ${error.message}`);
+    }
+  }
+
+  /**
+   * Mark a pending withdrawal as paid out
+   *
+   * @param withdrawalId - Withdrawal transfer ID
+   * @param payoutSignature - Signature of the payout transaction
+   * @returns Promise resolving to false if the withdrawal was not pending
+   */
+  async completeWithdrawal(withdrawalId: string, payoutSignature: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.completeWithdrawal(withdrawalId, payoutSignature);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, withdrawalId, payoutSignature }, "Storage completeWithdrawal operation failed");
+      throw new Error(`Failed to complete withdrawal '${withdrawalId}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Mark a pending withdrawal as failed, returning the reserved amount to the budget
+   *
+   * @param withdrawalId - Withdrawal transfer ID
+   * @param reason - Why the payout failed (stored as the withdrawal memo)
+   * @returns Promise resolving to false if the withdrawal was not pending
+   */
+  async failWithdrawal(withdrawalId: string, reason: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.failWithdrawal(withdrawalId, reason);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, withdrawalId, reason }, "Storage failWithdrawal operation failed");
+      throw new Error(`Failed to fail withdrawal '${withdrawalId}': ${error.message}`);
+    }
+  }
+
+  /**
+   * Get withdrawals still waiting for a payout, oldest first
+   *
+   * @param limit - Maximum number of withdrawals to return
+   * @returns Promise resolving to pending withdrawal transfers
+   */
+  async getPendingWithdrawals(limit: number = 50): Promise<TransferRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getPendingWithdrawals(limit);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, limit }, "Storage getPendingWithdrawals operation failed");
+      throw new Error(`Failed to get pending withdrawals: ${error.message}`);
+    }
+  }
+
+  /**
+   * Check whether a wallet already owns an article
+   *
+   * @param walletAddress - Wallet address
+   * @param articleId - Article identifier
+   * @returns Promise resolving to true if the wallet has paid for the article
+   */
+  async hasEntitlement(walletAddress: string, articleId: string): Promise<boolean> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.hasEntitlement(walletAddress, articleId);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, walletAddress, articleId }, "Storage hasEntitlement operation failed");
+      throw new Error(`Failed to check entitlement: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get all articles a wallet owns
+   *
+   * @param walletAddress - Wallet address
+   * @returns Promise resolving to array of entitlement records, newest first
+   */
+  async getEntitlementsByWallet(walletAddress: string): Promise<EntitlementRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getEntitlementsByWallet(walletAddress);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, walletAddress }, "Storage getEntitlementsByWallet operation failed");
+      throw new Error(`Failed to get entitlements for wallet '${walletAddress}': ${error.message}`);
+    }
+  }
+
   /**
    * Get transfers by wallet address
    *
@@ -263,10 +1124,80 @@ export class StorageService {
     }
   }
 
+  /**
+   * Get a page of transfers matching a filter, newest first
+   *
+   * @param filter - Wallet, types, mint, cluster and date range to match
+   * @param limit - Maximum number of transfers to return
+   * @param cursor - Position after the last transfer of the previous page
+   * @returns Promise resolving to the page and the cursor of the next one, if any
+   */
+  async queryTransfers(filter: TransferFilter, limit: number = 50, cursor?: TransferCursor): Promise<TransferPage> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.queryTransfers(filter, limit, cursor);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, filter, limit }, "Storage queryTransfers operation failed");
+      throw new Error(`Failed to query transfers: ${error.message}`);
+    }
+  }
+
+  /**
+   * Count transfers matching a filter
+   *
+   * @param filter - Wallet, types, mint, cluster and date range to match
+   * @returns Promise resolving to the number of matching transfers
+   */
+  async countTransfers(filter: TransferFilter): Promise<number> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.countTransfers(filter);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, filter }, "Storage countTransfers operation failed");
+      throw new Error(`Failed to count transfers: ${error.message}`);
+    }
+  }
+
+  /**
+   * Count and sum transfers matching a filter per type and token
+   *
+   * @param filter - Wallet, types, mint, cluster and date range to match
+   * @returns Promise resolving to one total per transfer type and token
+   */
+  async getTransferTotals(filter: TransferFilter): Promise<TransferTotal[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getTransferTotals(filter);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, filter }, "Storage getTransferTotals operation failed");
+      throw new Error(`Failed to get transfer totals: ${error.message}`);
+    }
+  }
+
+  /**
+   * Count and sum transfers matching a filter per article, type and token
+   *
+   * @param filter - Articles, types, wallet, mint, cluster and date range to match
+   * @returns Promise resolving to one total per article, transfer type and token
+   */
+  async getArticleTransferTotals(filter: TransferFilter): Promise<ArticleTransferTotal[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getArticleTransferTotals(filter);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, filter }, "Storage getArticleTransferTotals operation failed");
+      throw new Error(`Failed to get article transfer totals: ${error.message}`);
+    }
+  }
+
   /**
    * Get transfers by type
    *
-   * @param typeTx - Transaction type ('top-up', 'article', 'article-one-time')
+   * @param typeTx - Transaction type ('top-up', 'article', 'article-one-time', 'refund')
    * @param limit - Maximum number of transfers to return
    * @returns Promise resolving to array of transfer records
    */
@@ -316,165 +1247,159 @@ export class StorageService {
   }
 
   /**
-   * Get budget balance for a specific wallet, cluster, and token
+   * Get every budget balance of every wallet
    *
-   * @param walletAddress - Wallet address
-   * @param solanaCluster - Solana cluster
-   * @param tokenMintAddress - Token mint address
-   * @returns Promise resolving to budget balance or null
+   * @returns Promise resolving to array of budget balances
    */
-  async getBudgetBalance(
-    walletAddress: string,
-    solanaCluster: 'mainnet-beta' | 'devnet',
-    tokenMintAddress: string
-  ): Promise<any> {
+  async listBudgetBalances(): Promise<BudgetBalance[]> {
     this.ensureInitialized();
 
     try {
-      return await sqliteStorage.getBudgetBalance(walletAddress, solanaCluster, tokenMintAddress);
+      return await sqliteStorage.listBudgetBalances();
     } catch (error: any) {
-      budgetLogger.error({
-        error: error.message,
-        walletAddress,
-        solanaCluster,
-        tokenMintAddress
-      }, "Storage getBudgetBalance operation failed");
-      throw new Error(`Failed to get budget balance: ${error.message}`);
+      budgetLogger.error({ error: error.message }, "Storage listBudgetBalances operation failed");
+      throw new Error(`Failed to list budget balances: ${error.message}`);
     }
   }
 
   /**
-   * Update budget balance for a specific wallet, cluster, and token
+   * Get ledger accounts with the sums of their debits and credits
    *
-   * @param walletAddress - Wallet address
-   * @param solanaCluster - Solana cluster
-   * @param tokenMintAddress - Token mint address
-   * @param amount - New balance amount in smallest unit
-   * @param decimal - Token decimal places
-   * @param tokenSymbol - Token symbol
+   * @param accountType - Only accounts of this type
+   * @param owner - Only accounts of this owner
+   * @returns Promise resolving to array of account balances
    */
-  async updateBudgetBalance(
-    walletAddress: string,
-    solanaCluster: 'mainnet-beta' | 'devnet',
-    tokenMintAddress: string,
-    amount: number,
-    decimal: number,
-    tokenSymbol: string
-  ): Promise<void> {
+  async getLedgerAccountBalances(accountType?: LedgerAccountType, owner?: string): Promise<LedgerAccountBalance[]> {
     this.ensureInitialized();
 
     try {
-      await sqliteStorage.updateBudgetBalance(
-        walletAddress, solanaCluster, tokenMintAddress,
-        amount, decimal, tokenSymbol
-      );
+      return await sqliteStorage.getLedgerAccountBalances(accountType, owner);
     } catch (error: any) {
-      budgetLogger.error({
-        error: error.message,
-        walletAddress,
-        solanaCluster,
-        tokenMintAddress,
-        amount
-      }, "Storage updateBudgetBalance operation failed");
-      throw new Error(`Failed to update budget balance: ${error.message}`);
+      budgetLogger.error({ error: error.message, accountType, owner }, "Storage getLedgerAccountBalances operation failed");
+      throw new Error(`Failed to get ledger account balances: ${error.message}`);
     }
   }
 
   /**
-   * Check if a wallet has sufficient budget for a payment
+   * Get the debits and credits to an owner's ledger accounts of one type per
+   * article of the transfers they stand for
    *
-   * @param walletAddress - Wallet address
-   * @param solanaCluster - Solana cluster
-   * @param tokenMintAddress - Token mint address
-   * @param requiredAmount - Required amount in smallest unit
-   * @returns Promise resolving to true if sufficient budget exists
+   * @param accountType - Ledger account type
+   * @param owner - Account owner
+   * @returns Promise resolving to one total per article and account
    */
-  async hasSufficientBudget(
-    walletAddress: string,
-    solanaCluster: 'mainnet-beta' | 'devnet',
-    tokenMintAddress: string,
-    requiredAmount: number
-  ): Promise<boolean> {
+  async getAccountTotalsByArticle(accountType: LedgerAccountType, owner: string): Promise<ArticleAccountTotal[]> {
     this.ensureInitialized();
 
     try {
-      return await sqliteStorage.hasSufficientBudget(
-        walletAddress, solanaCluster, tokenMintAddress, requiredAmount
-      );
+      return await sqliteStorage.getAccountTotalsByArticle(accountType, owner);
     } catch (error: any) {
-      budgetLogger.error({
-        error: error.message,
-        walletAddress,
-        solanaCluster,
-        tokenMintAddress,
-        requiredAmount
-      }, "Storage hasSufficientBudget operation failed");
-      throw new Error(`Failed to check sufficient budget: ${error.message}`);
+      budgetLogger.error({ error: error.message, accountType, owner }, "Storage getAccountTotalsByArticle operation failed");
+      throw new Error(`Failed to get account totals by article: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the most recent postings to an owner's ledger accounts of one type
+   *
+   * @param accountType - Ledger account type
+   * @param owner - Account owner
+   * @param limit - Maximum number of postings to return
+   * @returns Promise resolving to array of postings, newest first
+   */
+  async getAccountPostings(accountType: LedgerAccountType, owner: string, limit: number = 10): Promise<AccountPostingRecord[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getAccountPostings(accountType, owner, limit);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, accountType, owner }, "Storage getAccountPostings operation failed");
+      throw new Error(`Failed to get account postings: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get journal entries whose debits and credits do not balance
+   *
+   * @returns Promise resolving to the totals of each unbalanced entry
+   */
+  async getUnbalancedJournalEntries(): Promise<JournalEntryTotals[]> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getUnbalancedJournalEntries();
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message }, "Storage getUnbalancedJournalEntries operation failed");
+      throw new Error(`Failed to get unbalanced journal entries: ${error.message}`);
+    }
+  }
+
+  /**
+   * Get the journal entry recorded for a transfer, with its postings
+   *
+   * @param kind - Journal entry kind (the transfer type)
+   * @param signatureId - Transaction signature ID
+   * @returns Promise resolving to the entry or null if none was recorded
+   */
+  async getJournalEntry(kind: JournalEntryKind, signatureId: string): Promise<JournalEntryRecord | null> {
+    this.ensureInitialized();
+
+    try {
+      return await sqliteStorage.getJournalEntry(kind, signatureId);
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, kind, signatureId }, "Storage getJournalEntry operation failed");
+      throw new Error(`Failed to get journal entry: ${error.message}`);
     }
   }
 
   /**
-   * Add amount to budget balance
+   * Get budget balance for a specific wallet, cluster, and token
    *
    * @param walletAddress - Wallet address
    * @param solanaCluster - Solana cluster
    * @param tokenMintAddress - Token mint address
-   * @param amountToAdd - Amount to add in smallest unit
-   * @param decimal - Token decimal places
-   * @param tokenSymbol - Token symbol
+   * @returns Promise resolving to budget balance or null
    */
-  async addToBudgetBalance(
+  async getBudgetBalance(
     walletAddress: string,
     solanaCluster: 'mainnet-beta' | 'devnet',
-    tokenMintAddress: string,
-    amountToAdd: number,
-    decimal: number,
-    tokenSymbol: string
-  ): Promise<void> {
+    tokenMintAddress: string
+  ): Promise<any> {
     this.ensureInitialized();
 
     try {
-      await sqliteStorage.addToBudgetBalance(
-        walletAddress, solanaCluster, tokenMintAddress,
-        amountToAdd, decimal, tokenSymbol
-      );
+      return await sqliteStorage.getBudgetBalance(walletAddress, solanaCluster, tokenMintAddress);
     } catch (error: any) {
       budgetLogger.error({
         error: error.message,
         walletAddress,
         solanaCluster,
-        tokenMintAddress,
-        amountToAdd
-      }, "Storage addToBudgetBalance operation failed");
-      throw new Error(`Failed to add to budget balance: ${error.message}`);
+        tokenMintAddress
+      }, "Storage getBudgetBalance operation failed");
+      throw new Error(`Failed to get budget balance: ${error.message}`);
     }
   }
 
   /**
-   * Deduct amount from budget balance
+   * Check if a wallet has sufficient budget for a payment
    *
    * @param walletAddress - Wallet address
    * @param solanaCluster - Solana cluster
    * @param tokenMintAddress - Token mint address
-   * @param amountToDeduct - Amount to deduct in smallest unit
-   * @param decimal - Token decimal places
-   * @param tokenSymbol - Token symbol
-   * @returns Promise resolving to true if deduction was successful
+   * @param requiredAmount - Required amount in smallest unit
+   * @returns Promise resolving to true if sufficient budget exists
    */
-  async deductFromBudgetBalance(
+  async hasSufficientBudget(
     walletAddress: string,
     solanaCluster: 'mainnet-beta' | 'devnet',
     tokenMintAddress: string,
-    amountToDeduct: number,
-    decimal: number,
-    tokenSymbol: string
+    requiredAmount: number
   ): Promise<boolean> {
     this.ensureInitialized();
 
     try {
-      return await sqliteStorage.deductFromBudgetBalance(
-        walletAddress, solanaCluster, tokenMintAddress,
-        amountToDeduct, decimal, tokenSymbol
+      return await sqliteStorage.hasSufficientBudget(
+        walletAddress, solanaCluster, tokenMintAddress, requiredAmount
       );
     } catch (error: any) {
       budgetLogger.error({
@@ -482,9 +1407,9 @@ export class StorageService {
         walletAddress,
         solanaCluster,
         tokenMintAddress,
-        amountToDeduct
-      }, "Storage deductFromBudgetBalance operation failed");
-      throw new Error(`Failed to deduct from budget balance: ${error.message}`);
+        requiredAmount
+      }, "Storage hasSufficientBudget operation failed");
+      throw new Error(`Failed to check sufficient budget: ${error.message}`);
     }
   }
 
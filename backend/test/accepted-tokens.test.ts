@@ -0,0 +1,29 @@
+import { CREATOR, MINT } from './helpers';
+import '../logger';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getPaymentRequirements } from '../accepted-tokens';
+import { describeRecipients, withRevenueSplits } from '../revenue-splits';
+import { InMemorySolanaRpcClient } from '../solana-rpc';
+
+const AUTHOR = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+
+const rpc = new InMemorySolanaRpcClient();
+rpc.addMint(MINT, 6);
+
+test('prices convert to the exact smallest unit', async () => {
+  for (const [price, expected] of [[2.01, 2010000n], [0.29, 290000n], [1.15, 1150000n], [0.1, 100000n]] as const) {
+    const [requirement] = await getPaymentRequirements(price, [{ mint: MINT, symbol: 'USDC', price: 1 }], rpc);
+    assert.equal(requirement.amountSmallestUnit, expected, `price ${price}`);
+    assert.equal(requirement.amount, price);
+  }
+});
+
+test('invoice recipients carry the amount to transfer in the smallest unit', async () => {
+  const requirements = await getPaymentRequirements(2.01, [{ mint: MINT, symbol: 'USDC', price: 1 }], rpc);
+  const [requirement] = withRevenueSplits(requirements, [{ wallet: AUTHOR, share: 70 }, { wallet: CREATOR, share: 30 }], CREATOR);
+
+  const recipients = describeRecipients(requirement, CREATOR);
+  assert.deepEqual(recipients.map(recipient => recipient.amountSmallestUnit), ['1407000', '603000']);
+  assert.equal(recipients.reduce((sum, recipient) => sum + BigInt(recipient.amountSmallestUnit), 0n), 2010000n);
+});
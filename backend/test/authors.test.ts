@@ -0,0 +1,72 @@
+import { CREATOR, PAYER, tempDir } from './helpers';
+import '../logger';
+import { before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as path from 'path';
+import { mkdirSync, writeFileSync } from 'fs';
+import ArticleService from '../article-service';
+import { authorRegistry } from '../authors';
+import { config } from '../config';
+
+const articlesPath = path.join(tempDir, 'articles');
+
+const writeAuthors = (lines: string[]) => writeFileSync(process.env.AUTHORS_PATH!, lines.join('\n'));
+
+const writeArticle = (id: string, frontmatter: string) => writeFileSync(
+  path.join(articlesPath, `${id}.md`),
+  `---\ntitle: ${id}\ndate: "2024-10-08"\n${frontmatter}---\n\n# ${id}\n\nFirst paragraph.\n\nSecond paragraph.\n`
+);
+
+before(() => {
+  mkdirSync(articlesPath);
+  // Starts with a document marker, which a frontmatter parser would take
+  // for the end of an empty block
+  writeAuthors([
+    '---',
+    'authors:',
+    '  - id: jane-doe',
+    '    name: Jane Doe',
+    `    wallet: ${PAYER}`,
+    '    bio: |',
+    '      Covers privacy',
+    '      ---',
+    '      and cryptography',
+    ''
+  ]);
+
+  writeArticle('by_jane', 'authorId: jane-doe\n');
+  writeArticle('by_nobody', 'authorId: john-roe\n');
+  writeArticle('unattributed', `payees:\n  - wallet: ${CREATOR}\n    share: 100\n`);
+});
+
+test('the registry is parsed as a YAML document', async () => {
+  const author = await authorRegistry.get('jane-doe');
+  assert.equal(author?.wallet, PAYER);
+  assert.equal(author?.bio, 'Covers privacy\n---\nand cryptography');
+});
+
+test('an article naming an unknown author is left out of the listing', async () => {
+  const articles = await new ArticleService(articlesPath).scanArticles();
+  const byId = new Map(articles.map(article => [article.id, article]));
+
+  assert.deepEqual([...byId.keys()].sort(), ['by_jane', 'unattributed']);
+  assert.equal(byId.get('by_jane')?.author, 'Jane Doe');
+  assert.deepEqual(byId.get('by_jane')?.payees, [{ wallet: PAYER, share: 100 }]);
+});
+
+test('a rescan stops serving articles whose author was removed', async () => {
+  const cacheTtl = config.cacheTtl;
+  config.cacheTtl = 0;
+  try {
+    const service = new ArticleService(articlesPath);
+    assert.deepEqual((await service.getArticleMetadata('by_jane'))?.payees, [{ wallet: PAYER, share: 100 }]);
+
+    writeAuthors(['authors: []', '']);
+    const articles = await service.scanArticles();
+
+    assert.deepEqual(articles.map(article => article.id), ['unattributed']);
+    assert.equal(await service.getArticleMetadata('by_jane'), null);
+  } finally {
+    config.cacheTtl = cacheTtl;
+  }
+});
@@ -0,0 +1,85 @@
+import { MINT, PAYER } from './helpers';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { sqliteStorage } from '../sqlite-storage';
+
+const deposit = (signatureId: string, amount: number) => sqliteStorage.processTopUp({
+  signatureId,
+  from: PAYER,
+  to: 'BPFLoaderUpgradeab1e11111111111111111111111',
+  solanaCluster: 'devnet',
+  amount,
+  decimal: 6,
+  tokenSymbol: 'USDC',
+  tokenMintAddress: MINT
+});
+
+before(async () => {
+  await sqliteStorage.initialize();
+});
+
+after(async () => {
+  await sqliteStorage.close();
+});
+
+test('parallel reads never spend more than the balance', async () => {
+  await deposit('deposit-small', 300000);
+
+  const results = await Promise.all(Array.from({ length: 20 }, (_, i) => sqliteStorage.processArticlePayment({
+    walletAddress: PAYER,
+    solanaCluster: 'devnet',
+    tokenMintAddress: MINT,
+    amount: 100000,
+    articleId: `article-${i}`
+  })));
+
+  const paid = results.filter(result => result.success);
+  assert.equal(paid.length, 3);
+  assert.ok(results.filter(result => !result.success).every(result => result.reason === 'insufficient_budget'));
+
+  const balance = await sqliteStorage.getBudgetBalance(PAYER, 'devnet', MINT);
+  assert.equal(balance?.amount, 0);
+  assert.equal((await sqliteStorage.getTransfersByType('article')).length, 3);
+  assert.deepEqual(await sqliteStorage.getUnbalancedJournalEntries(), []);
+});
+
+test('a rolled back transaction does not take concurrent writes with it', async () => {
+  await deposit('deposit-duplicate', 1000000);
+
+  // The second deposit fails on its duplicate transfer and rolls back while
+  // the references are being claimed, one per turn of the event loop
+  const rollback = deposit('deposit-duplicate', 1000000);
+  const claims: Promise<boolean>[] = [];
+  for (let i = 0; i < 5; i++) {
+    await new Promise(resolve => setImmediate(resolve));
+    claims.push(sqliteStorage.addReference(`reference-${i}`, { ex: 300 }));
+  }
+  const [rolledBack, ...claimed] = await Promise.allSettled([rollback, ...claims]);
+
+  assert.equal(rolledBack.status, 'rejected');
+  assert.ok(claimed.every(result => result.status === 'fulfilled' && result.value === true));
+  for (let i = 0; i < 5; i++) {
+    assert.equal(await sqliteStorage.hasReference(`reference-${i}`), true);
+  }
+});
+
+test('parallel purchases of one article are charged once', async () => {
+  await deposit('deposit-same-article', 1000000);
+  const before = await sqliteStorage.getBudgetBalance(PAYER, 'devnet', MINT);
+
+  const results = await Promise.all(Array.from({ length: 5 }, () => sqliteStorage.processArticlePayment({
+    walletAddress: PAYER,
+    solanaCluster: 'devnet',
+    tokenMintAddress: MINT,
+    amount: 100000,
+    articleId: 'same-article'
+  })));
+
+  assert.equal(results.filter(result => result.success).length, 1);
+  assert.ok(results.filter(result => !result.success).every(result => result.reason === 'already_entitled'));
+
+  const after = await sqliteStorage.getBudgetBalance(PAYER, 'devnet', MINT);
+  assert.equal(before!.amount - after!.amount, 100000);
+  const purchases = (await sqliteStorage.getTransfersByType('article')).filter(transfer => transfer.type_tx_nodes === 'same-article');
+  assert.equal(purchases.length, 1);
+});
@@ -0,0 +1,51 @@
+// helpers.ts - shared setup for the tests, imported before any app module
+import * as os from 'os';
+import * as path from 'path';
+import { mkdtempSync, rmSync } from 'fs';
+import type { Server } from 'http';
+
+export const CREATOR = 'BPFLoaderUpgradeab1e11111111111111111111111';
+export const PAYER = '9WzDXwBbmkg8ZTbNMqUxvQRAyrZzDsGYdLVL9zYtAWWM';
+export const MINT = '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU';
+export const ARTICLE_ID = 'encryption_is_dead_long_live_encryption';
+
+// Configuration is read once on import, so each test file gets its own
+// temporary database and the sample articles before loading the app
+export const tempDir = mkdtempSync(path.join(os.tmpdir(), 'x402-test-'));
+process.env.DATABASE_PATH = path.join(tempDir, 'storage.sqlite');
+process.env.AUTHORS_PATH = path.join(tempDir, 'authors.yaml');
+process.env.ARTICLES_PATH = path.join(__dirname, '..', 'articles');
+process.env.MY_WALLET_ADDRESS = CREATOR;
+process.env.SPL_TOKEN_MINT = MINT;
+process.env.LOG_LEVEL = process.env.LOG_LEVEL || 'silent';
+process.on('exit', () => rmSync(tempDir, { recursive: true, force: true }));
+
+export interface TestServer {
+  server: Server;
+  request(method: string, path: string, options?: { headers?: Record<string, string>; body?: unknown }): Promise<{ status: number; body: any }>;
+}
+
+/**
+ * Start the app on a free port and return a JSON client for it
+ */
+export async function startServer(): Promise<TestServer> {
+  const { default: app } = await import('../app');
+  const server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  const { port } = server.address() as { port: number };
+
+  return {
+    server,
+    async request(method, requestPath, options = {}) {
+      const response = await fetch(`http://127.0.0.1:${port}${requestPath}`, {
+        method,
+        headers: {
+          ...(options.body !== undefined ? { 'Content-Type': 'application/json' } : {}),
+          ...options.headers
+        },
+        body: options.body !== undefined ? JSON.stringify(options.body) : undefined
+      });
+      return { status: response.status, body: await response.json() };
+    }
+  };
+}
@@ -0,0 +1,76 @@
+import './helpers';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import type { Server } from 'http';
+import { createIdempotencyMiddleware } from '../idempotency';
+import { storage } from '../storage';
+
+// Each request to /confirm answers with the next status in line
+const statuses: number[] = [];
+let server: Server;
+let baseUrl: string;
+
+const confirm = async (key: string, body: unknown = { payerPubkey: 'payer-a', signature: 'abc' }) => {
+  const response = await fetch(`${baseUrl}/confirm`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Idempotency-Key': key },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, replayed: response.headers.get('Idempotent-Replayed') === 'true', body: await response.json() as any };
+};
+
+before(async () => {
+  await storage.initialize();
+
+  const app = express();
+  app.use(express.json());
+  app.post('/confirm', createIdempotencyMiddleware('test', req => req.body?.payerPubkey, { releasePending: true }), (req, res) => {
+    const status = statuses.shift() ?? 200;
+    res.status(status).json({ status });
+  });
+
+  server = app.listen(0);
+  await new Promise(resolve => server.once('listening', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+});
+
+after(async () => {
+  server.close();
+  await storage.close();
+});
+
+test('a completed response is replayed for the same key', async () => {
+  statuses.push(200);
+  assert.deepEqual(await confirm('completed'), { status: 200, replayed: false, body: { status: 200 } });
+  assert.deepEqual(await confirm('completed'), { status: 200, replayed: true, body: { status: 200 } });
+});
+
+test('a different body with the same key is rejected', async () => {
+  await confirm('reused');
+  const reused = await confirm('reused', { payerPubkey: 'payer-a', signature: 'def' });
+  assert.equal(reused.status, 409);
+  assert.equal(reused.body.code, 'IDEMPOTENCY_KEY_REUSED');
+});
+
+test('a pending 202 is not replayed, so a retry sees the outcome', async () => {
+  statuses.push(202, 200);
+  assert.deepEqual(await confirm('pending'), { status: 202, replayed: false, body: { status: 202 } });
+  assert.deepEqual(await confirm('pending'), { status: 200, replayed: false, body: { status: 200 } });
+  assert.deepEqual(await confirm('pending'), { status: 200, replayed: true, body: { status: 200 } });
+});
+
+test('a server error is not replayed', async () => {
+  statuses.push(500, 200);
+  assert.equal((await confirm('failed')).status, 500);
+  assert.deepEqual(await confirm('failed'), { status: 200, replayed: false, body: { status: 200 } });
+});
+
+test('the same key from another wallet is a separate request', async () => {
+  statuses.push(200, 201);
+  assert.deepEqual(await confirm('shared'), { status: 200, replayed: false, body: { status: 200 } });
+  assert.deepEqual(
+    await confirm('shared', { payerPubkey: 'payer-b', signature: 'def' }),
+    { status: 201, replayed: false, body: { status: 201 } }
+  );
+});
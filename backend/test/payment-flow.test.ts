@@ -0,0 +1,65 @@
+import { ARTICLE_ID, CREATOR, MINT, PAYER, startServer, TestServer } from './helpers';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { InMemorySolanaRpcClient, setRpcClient } from '../solana-rpc';
+import { storage } from '../storage';
+
+const SIGNATURE = '5'.repeat(88);
+
+let rpc: InMemorySolanaRpcClient;
+let app: TestServer;
+
+before(async () => {
+  rpc = new InMemorySolanaRpcClient();
+  rpc.addMint(MINT, 6);
+  setRpcClient(rpc);
+  await storage.initialize();
+  app = await startServer();
+});
+
+after(async () => {
+  app.server.close();
+  await storage.close();
+});
+
+test('an article is served after its invoice is paid on chain', async () => {
+  const invoice = await app.request('GET', `/api/articles/${ARTICLE_ID}`);
+  assert.equal(invoice.status, 402);
+  assert.ok(invoice.body.reference);
+  assert.ok(invoice.body.amount > 0);
+
+  rpc.addTransaction(SIGNATURE, await InMemorySolanaRpcClient.createTokenTransfer({
+    payer: PAYER,
+    recipientWallet: CREATOR,
+    mint: MINT,
+    amount: BigInt(Math.round(invoice.body.amount * 1e6)),
+    decimals: 6,
+    reference: invoice.body.reference
+  }));
+
+  const paid = await app.request('GET', `/api/articles/${ARTICLE_ID}?reference=${invoice.body.reference}`, {
+    headers: { Authorization: `x402 ${SIGNATURE}`, 'x402-payer-pubkey': PAYER }
+  });
+  assert.equal(paid.status, 200);
+  assert.equal(paid.body.id, ARTICLE_ID);
+  assert.ok(paid.body.fullContent);
+  assert.ok(paid.body.accessToken);
+
+  // The access token re-opens the article without paying again
+  const reopened = await app.request('GET', `/api/articles/${ARTICLE_ID}`, {
+    headers: { Authorization: `Bearer ${paid.body.accessToken}` }
+  });
+  assert.equal(reopened.status, 200);
+  assert.ok(reopened.body.fullContent);
+});
+
+test('a transaction cannot pay for a second invoice', async () => {
+  const invoice = await app.request('GET', `/api/articles/${ARTICLE_ID}`);
+  assert.equal(invoice.status, 402);
+
+  const replayed = await app.request('GET', `/api/articles/${ARTICLE_ID}?reference=${invoice.body.reference}`, {
+    headers: { Authorization: `x402 ${SIGNATURE}`, 'x402-payer-pubkey': PAYER }
+  });
+  assert.notEqual(replayed.status, 200);
+  assert.equal(replayed.body.fullContent, undefined);
+});
@@ -0,0 +1,47 @@
+import './helpers';
+import '../logger';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { config } from '../config';
+import { checkWebhookHost } from '../webhooks';
+
+const nodeEnv = config.nodeEnv;
+
+before(() => {
+  config.nodeEnv = 'production';
+});
+
+after(() => {
+  config.nodeEnv = nodeEnv;
+});
+
+test('webhooks may not target local or internal hosts in production', async () => {
+  for (const url of [
+    'https://127.0.0.1/hook',
+    'https://[::1]/hook',
+    'https://[::ffff:127.0.0.1]/hook',
+    'https://169.254.169.254/latest/meta-data',
+    'https://10.0.0.5/hook',
+    'https://172.16.4.1/hook',
+    'https://192.168.1.10/hook',
+    'https://[fd12:3456::1]/hook',
+    'https://localhost/hook',
+    'https://metadata.google.internal/computeMetadata'
+  ]) {
+    assert.ok(await checkWebhookHost(url), url);
+  }
+});
+
+test('webhooks may target public hosts in production', async () => {
+  assert.equal(await checkWebhookHost('https://93.184.216.34/hook'), null);
+  assert.equal(await checkWebhookHost('https://[2606:2800:220:1::1]/hook'), null);
+});
+
+test('local webhooks are allowed outside production', async () => {
+  config.nodeEnv = 'development';
+  try {
+    assert.equal(await checkWebhookHost('http://127.0.0.1:4000/hook'), null);
+  } finally {
+    config.nodeEnv = 'production';
+  }
+});
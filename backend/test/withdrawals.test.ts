@@ -0,0 +1,55 @@
+import { CREATOR, MINT, startServer, TestServer } from './helpers';
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateKeyPairSigner, getBase58Decoder, signBytes, KeyPairSigner } from '@solana/kit';
+import { buildWithdrawalMessage } from '../payouts';
+import { InMemorySolanaRpcClient, setRpcClient } from '../solana-rpc';
+import { storage } from '../storage';
+
+let wallet: KeyPairSigner;
+let app: TestServer;
+
+before(async () => {
+  const rpc = new InMemorySolanaRpcClient();
+  rpc.addMint(MINT, 6);
+  setRpcClient(rpc);
+  await storage.initialize();
+  app = await startServer();
+
+  wallet = await generateKeyPairSigner();
+  await storage.processTopUp({
+    signatureId: 'deposit-withdrawal',
+    from: wallet.address,
+    to: CREATOR,
+    solanaCluster: 'devnet',
+    amount: 5000000,
+    decimal: 6,
+    tokenSymbol: 'USDC',
+    tokenMintAddress: MINT
+  });
+});
+
+after(async () => {
+  app.server.close();
+  await storage.close();
+});
+
+test('a retried withdrawal gets the same response instead of NONCE_REUSED', async () => {
+  const fields = { walletAddress: wallet.address, amount: 1.5, tokenMint: MINT, nonce: 'retry-nonce-1', issuedAt: new Date().toISOString() };
+  const signature = await signBytes(wallet.keyPair.privateKey, new TextEncoder().encode(buildWithdrawalMessage(fields)));
+  const withdraw = () => app.request('POST', '/api/budget/withdraw', {
+    headers: { 'Idempotency-Key': 'withdraw-retry' },
+    body: { payerPubkey: wallet.address, amount: fields.amount, tokenMint: MINT, nonce: fields.nonce, issuedAt: fields.issuedAt, signature: getBase58Decoder().decode(signature) }
+  });
+
+  const first = await withdraw();
+  assert.equal(first.status, 202);
+  assert.ok(first.body.withdrawalId);
+
+  const retry = await withdraw();
+  assert.equal(retry.status, 202);
+  assert.equal(retry.body.withdrawalId, first.body.withdrawalId);
+
+  const balance = await storage.getBudgetBalance(wallet.address, 'devnet', MINT);
+  assert.equal(balance?.amount, 3500000);
+});
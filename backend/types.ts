@@ -1,30 +1,43 @@
+import type { SolanaRpcClient } from './solana-rpc';
+import type { AcceptedToken } from './accepted-tokens';
+
+export interface TransactionInstruction {
+  programId?: string;
+  program?: string;
+  parsed?: any;
+  info?: any;
+}
+
+export interface TokenBalance {
+  accountIndex?: number;
+  owner: string;
+  mint: string;
+  uiTokenAmount?: {
+    amount: string;
+    decimals?: number;
+  };
+}
+
 export interface SolanaTransactionResponse {
   transaction: {
     message: {
-      instructions: Array<{
-        programId?: string;
-        program?: string;
-        parsed?: any;
-        info?: any;
+      accountKeys?: Array<{
+        pubkey: string;
+        signer: boolean;
+        writable: boolean;
+        source?: string;
       }>;
+      instructions: TransactionInstruction[];
     };
   };
   meta?: {
     err?: any;
-    preTokenBalances?: Array<{
-      owner: string;
-      mint: string;
-      uiTokenAmount?: {
-        amount: string;
-      };
-    }>;
-    postTokenBalances?: Array<{
-      owner: string;
-      mint: string;
-      uiTokenAmount?: {
-        amount: string;
-      };
+    innerInstructions?: Array<{
+      index: number;
+      instructions: TransactionInstruction[];
     }>;
+    preTokenBalances?: TokenBalance[];
+    postTokenBalances?: TokenBalance[];
   };
 }
 
@@ -43,8 +56,7 @@ export interface MemoInstruction {
 export interface TransactionVerificationContext {
   signature: string;
   reference: string;
-  expectedAmount: number;
-  splToken: string;
+  expectedAmounts: Record<string, number>;
   recipientWallet: string;
 }
 
@@ -62,8 +74,7 @@ export interface PaymentVerificationLog {
   error: string;
   signature: string;
   reference: string;
-  expectedAmount: number;
-  splToken: string;
+  expectedAmounts: Record<string, number>;
 }
 
 export interface ArticleProcessingError {
@@ -112,8 +123,7 @@ export interface ServerStartupConfig {
 }
 
 export interface TransactionMetadata {
-  preBalance: string;
-  postBalance: string;
+  payer: string;
   amountReceived: string;
   amountRequired: string;
 }
@@ -144,7 +154,8 @@ export interface EnvironmentConfig {
 export class PaymentVerificationError extends Error {
   constructor(
     message: string,
-    public readonly context: TransactionVerificationContext
+    public readonly context: TransactionVerificationContext,
+    public readonly code: VerificationFailureCode = 'VERIFICATION_FAILED'
   ) {
     super(message);
     this.name = 'PaymentVerificationError';
@@ -182,11 +193,60 @@ export class ValidationError extends Error {
 }
 
 // Paywall and payment types
+export type VerificationFailureCode =
+  | 'INVALID_INPUT'
+  | 'TRANSACTION_NOT_FOUND'
+  | 'TRANSACTION_FAILED'
+  | 'REFERENCE_MISMATCH'
+  | 'NO_TOKEN_TRANSFER'
+  | 'WRONG_DESTINATION'
+  | 'WRONG_MINT'
+  | 'SIGNER_MISMATCH'
+  | 'SELF_TRANSFER'
+  | 'AMOUNT_MISMATCH'
+  | 'VERIFICATION_FAILED';
+
 export interface VerificationResult {
   success: boolean;
   error?: string;
+  code?: VerificationFailureCode;
+  payer?: string;
   amountReceived?: number;
   amountReceivedSmallestUnit?: bigint;
+  tokenMint?: string;
+  decimals?: number;
+}
+
+/**
+ * A wallet an article payment must reach, and how much of the option's
+ * amount it must receive
+ */
+export interface PaymentRecipient {
+  wallet: string;
+  amount: number;
+  // The exact amount to transfer, as an integer string in the mint's smallest unit
+  amountSmallestUnit: string;
+}
+
+export interface PaymentOption {
+  token: string;
+  symbol: string;
+  decimals: number;
+  amount: number;
+  recipients?: PaymentRecipient[];
+}
+
+/**
+ * One part of an article payment, in the token's smallest unit: a payee's
+ * share, credited to their `creator_revenue` account, or the platform fee.
+ * `wallet` is where a one-time payment sends it; the fee is paid to the
+ * recipient wallet and credited to the platform.
+ */
+export interface RevenueSplit {
+  account_type: 'creator_revenue' | 'platform_fee';
+  owner: string;
+  wallet: string;
+  amount: number;
 }
 
 export interface Invoice {
@@ -195,6 +255,9 @@ export interface Invoice {
   amount: number;
   token: string;
   reference: string;
+  expiresAt: string;
+  recipients: PaymentRecipient[];
+  accepts: PaymentOption[];
   metadata: {
     service: string;
     description: string;
@@ -203,17 +266,37 @@ export interface Invoice {
 
 export interface BudgetPaywallOptions {
   amount: number;
-  splToken: string;
+  acceptedTokens: AcceptedToken[];
+  rpcClient?: SolanaRpcClient;
 }
 
 export interface X402PaywallOptions extends BudgetPaywallOptions {
   recipientWallet: string;
 }
 
+/**
+ * Options for a replay-protection reference. `ex` is the lifetime in
+ * seconds; `signature` ties the reference to the transaction that paid it.
+ */
+export interface ReferenceOptions {
+  ex?: number;
+  signature?: string;
+}
+
 // SQLite Database Types
+export type TransferType = 'top-up' | 'article' | 'article-one-time' | 'refund' | 'withdrawal';
+
+export const TRANSFER_TYPES: TransferType[] = ['top-up', 'article', 'article-one-time', 'refund', 'withdrawal'];
+
+/**
+ * Settlement state of a transfer. Only withdrawals start out 'pending',
+ * until their payout is sent ('completed') or abandoned ('failed').
+ */
+export type TransferStatus = 'pending' | 'completed' | 'failed';
+
 export interface TransferRecord {
   signature_id: string;
-  type_tx: 'top-up' | 'article' | 'article-one-time';
+  type_tx: TransferType;
   type_tx_nodes?: string;
   from: string;
   to: string;
@@ -223,6 +306,106 @@ export interface TransferRecord {
   token_symbol: string;
   token_mint_address: string;
   memo_value?: string;
+  status?: TransferStatus;
+  agent_key_id?: string;
+  // Price in the pricing currency of a budget purchase
+  price?: number;
+  created_at: number;
+}
+
+/**
+ * Which transfers to list or total. `created_from` is inclusive and
+ * `created_to` exclusive, both in unix seconds.
+ */
+export interface TransferFilter {
+  walletAddress?: string;
+  typeTx?: TransferType[];
+  excludeTypeTx?: TransferType[];
+  tokenMintAddress?: string;
+  solanaCluster?: 'mainnet-beta' | 'devnet';
+  createdFrom?: number;
+  createdTo?: number;
+  // Article IDs recorded in type_tx_nodes
+  articleIds?: string[];
+}
+
+/**
+ * Position after the last transfer of a page; transfers are ordered by
+ * created_at, then signature_id, newest first
+ */
+export interface TransferCursor {
+  created_at: number;
+  signature_id: string;
+}
+
+export interface TransferPage {
+  transfers: TransferRecord[];
+  nextCursor: TransferCursor | null;
+}
+
+/**
+ * Count and sum of transfers of one type in one token
+ */
+export interface TransferTotal {
+  type_tx: TransferType;
+  token_symbol: string;
+  token_mint_address: string;
+  solana_cluster: 'mainnet-beta' | 'devnet';
+  decimal: number;
+  count: number;
+  amount: number;
+}
+
+/**
+ * A TransferTotal for one article
+ */
+export interface ArticleTransferTotal extends TransferTotal {
+  article_id: string;
+}
+
+export type ReconciliationRunStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * One comparison of the transfers ledger with what reached the recipient
+ * wallet on chain, over transactions between `window_start` and
+ * `window_end` (Unix seconds)
+ */
+export interface ReconciliationRunRecord {
+  id: string;
+  wallet_address: string;
+  solana_cluster: 'mainnet-beta' | 'devnet';
+  status: ReconciliationRunStatus;
+  window_start: number;
+  window_end: number;
+  signatures_scanned: number;
+  transfers_checked: number;
+  discrepancy_count: number;
+  error?: string;
+  started_at: number;
+  finished_at?: number;
+}
+
+/**
+ * `missing_in_ledger`: a payment reached the wallet with no one-time or
+ * top-up transfer recorded for it. `missing_on_chain`: a recorded transfer
+ * whose transaction is not on chain or failed. `amount_mismatch`: both
+ * exist but the amounts or mints differ.
+ */
+export type ReconciliationDiscrepancyKind = 'missing_in_ledger' | 'missing_on_chain' | 'amount_mismatch';
+
+/**
+ * A discrepancy found by a reconciliation run. Amounts are in the token's
+ * smallest unit.
+ */
+export interface ReconciliationDiscrepancyRecord {
+  run_id: string;
+  kind: ReconciliationDiscrepancyKind;
+  signature_id: string;
+  type_tx?: TransferType;
+  token_mint_address?: string;
+  ledger_amount?: number;
+  chain_amount?: number;
+  detail: string;
   created_at: number;
 }
 
@@ -230,9 +413,340 @@ export interface BudgetBalance {
   wallet_address: string;
   solana_cluster: 'mainnet-beta' | 'devnet';
   amount: number;
+  reserved_amount: number;
+  decimal: number;
+  token_symbol: string;
+  token_mint_address: string;
+  created_at: number;
+}
+
+/**
+ * Ledger accounts, one per owner, cluster and mint. `treasury` holds what the
+ * platform's wallets received and is debit-normal; the others are
+ * credit-normal. `user_budget` and `user_reserved` are a reader's spendable
+ * and withdrawal-reserved budget, `creator_revenue` what a recipient earned
+ * and `platform_fee` the platform's cut of article payments.
+ */
+export type LedgerAccountType = 'treasury' | 'user_budget' | 'user_reserved' | 'creator_revenue' | 'platform_fee';
+
+export const LEDGER_ACCOUNT_TYPES: LedgerAccountType[] = ['treasury', 'user_budget', 'user_reserved', 'creator_revenue', 'platform_fee'];
+
+// Owner of the treasury and platform_fee accounts
+export const PLATFORM_ACCOUNT_OWNER = 'platform';
+
+export type JournalEntryKind =
+  | 'opening-balance'
+  | 'top-up'
+  | 'article'
+  | 'article-one-time'
+  | 'refund'
+  | 'withdrawal'
+  | 'withdrawal-completed'
+  | 'withdrawal-failed';
+
+export type PostingDirection = 'debit' | 'credit';
+
+/**
+ * One side of a journal entry. Amounts are in the token's smallest unit and
+ * always positive; `direction` says which side they are on.
+ */
+export interface LedgerPosting {
+  account_type: LedgerAccountType;
+  owner: string;
+  direction: PostingDirection;
+  amount: number;
+}
+
+/**
+ * A balanced set of postings in one token, recorded together with the
+ * transfer it stands for
+ */
+export interface JournalEntry {
+  kind: JournalEntryKind;
+  signature_id?: string;
+  solana_cluster: 'mainnet-beta' | 'devnet';
+  token_mint_address: string;
+  decimal: number;
+  token_symbol: string;
+  memo?: string;
+  postings: LedgerPosting[];
+}
+
+export interface JournalEntryRecord extends JournalEntry {
+  id: number;
+  created_at: number;
+}
+
+/**
+ * Debit and credit totals of a journal entry
+ */
+export interface JournalEntryTotals {
+  entry_id: number;
+  kind: JournalEntryKind;
+  signature_id?: string;
+  postings: number;
+  debits: number;
+  credits: number;
+}
+
+/**
+ * An account with the sums of its postings
+ */
+export interface LedgerAccountBalance {
+  account_type: LedgerAccountType;
+  owner: string;
+  solana_cluster: 'mainnet-beta' | 'devnet';
+  token_mint_address: string;
+  token_symbol: string;
+  decimal: number;
+  debits: number;
+  credits: number;
+  postings: number;
+}
+
+/**
+ * Net balance of an owner's ledger account from the entries of one article's
+ * transfers
+ */
+export interface ArticleAccountTotal {
+  article_id: string;
+  solana_cluster: 'mainnet-beta' | 'devnet';
+  token_mint_address: string;
+  token_symbol: string;
   decimal: number;
+  debits: number;
+  credits: number;
+  postings: number;
+}
+
+/**
+ * A posting to one ledger account, with the article of the transfer its
+ * entry stands for
+ */
+export interface AccountPostingRecord {
+  entry_id: number;
+  kind: JournalEntryKind;
+  signature_id?: string;
+  article_id?: string;
+  solana_cluster: 'mainnet-beta' | 'devnet';
+  token_mint_address: string;
   token_symbol: string;
+  decimal: number;
+  direction: PostingDirection;
+  amount: number;
+  created_at: number;
+}
+
+/**
+ * `unbalanced_entry`: a journal entry whose debits and credits differ.
+ * `unbalanced_books`: total debits and credits in a token differ.
+ * `balance_mismatch`: a budget_balances row disagrees with its account.
+ * `negative_balance`: a budget account is overdrawn.
+ */
+export type LedgerViolationKind = 'unbalanced_entry' | 'unbalanced_books' | 'balance_mismatch' | 'negative_balance';
+
+export interface LedgerViolation {
+  kind: LedgerViolationKind;
+  detail: string;
+  entry_id?: number;
+  account_type?: LedgerAccountType;
+  owner?: string;
+  solana_cluster?: 'mainnet-beta' | 'devnet';
+  token_mint_address?: string;
+  expected?: number;
+  actual?: number;
+}
+
+export interface EntitlementRecord {
+  wallet_address: string;
+  article_id: string;
+  signature_id: string;
+  created_at: number;
+}
+
+export type InvoiceStatus = 'pending' | 'paid' | 'consumed';
+
+/**
+ * A payment option frozen into an invoice when it is issued. The smallest
+ * unit amount is kept as a string because it is a bigint; its recipients
+ * follow from the splits.
+ */
+export interface InvoiceOption extends Omit<PaymentOption, 'recipients'> {
+  amountSmallestUnit: string;
+  splits?: RevenueSplit[];
+}
+
+export interface InvoiceRecord {
+  reference: string;
+  article_id: string;
+  amount: number;
   token_mint_address: string;
+  recipient_wallet: string;
+  options: InvoiceOption[];
+  status: InvoiceStatus;
+  signature_id?: string;
+  expires_at: number;
+  created_at: number;
+}
+
+export type PaymentConfirmationKind = 'article' | 'deposit';
+
+export type PaymentConfirmationStatus = 'pending' | 'confirmed' | 'failed' | 'expired';
+
+/**
+ * A payment proof whose transaction was not on chain yet when it was
+ * submitted. It is checked again with backoff until the transaction is
+ * finalized, fails verification or `expires_at` passes. The payment options
+ * are frozen like an invoice's; `result` is what the completed payment
+ * returned.
+ */
+export interface PaymentConfirmationRecord {
+  reference: string;
+  signature_id: string;
+  kind: PaymentConfirmationKind;
+  payer_address?: string;
+  article_id?: string;
+  recipient_wallet: string;
+  amount: number;
+  options: InvoiceOption[];
+  status: PaymentConfirmationStatus;
+  checks: number;
+  next_check_at: number;
+  expires_at: number;
+  error?: string;
+  error_code?: string;
+  result?: Record<string, unknown>;
+  created_at: number;
+  updated_at: number;
+}
+
+/**
+ * A Sign-In With Solana nonce, kept until it is used or expires. The domain
+ * and URI are frozen at issue time so the signed message can be rebuilt.
+ */
+export interface AuthNonceRecord {
+  nonce: string;
+  domain: string;
+  uri: string;
+  expires_at: number;
+  created_at: number;
+}
+
+/**
+ * A delegated spending key. `spend_cap`, `spent` and `max_article_price`
+ * are in the pricing currency; `allowed_tags` is lower-cased, and a key
+ * without tags may be used on any article.
+ */
+export interface AgentKeyRecord {
+  id: string;
+  key_hash: string;
+  wallet_address: string;
+  label?: string;
+  spend_cap: number;
+  spent: number;
+  max_article_price?: number;
+  allowed_tags?: string[];
+  expires_at: number;
+  revoked_at?: number;
+  created_at: number;
+}
+
+/**
+ * A reader's own spending limits on their budget, in the pricing currency,
+ * across all tokens. Unset limits do not apply. `day_spent` and
+ * `month_spent` are what was spent in the UTC `day` (YYYY-MM-DD) and
+ * `month` (YYYY-MM) of the last budget payment.
+ */
+export interface SpendingLimitRecord {
+  wallet_address: string;
+  daily_limit?: number;
+  monthly_limit?: number;
+  max_article_price?: number;
+  day?: string;
+  day_spent: number;
+  month?: string;
+  month_spent: number;
+  updated_at: number;
+}
+
+export type SpendingLimitType = 'daily' | 'monthly' | 'article';
+
+export type WebhookEventType = 'budget.low' | 'budget.depleted' | 'deposit.confirmed' | 'article.purchased';
+
+/**
+ * A wallet's webhook subscription. `secret` signs every payload, so it is
+ * kept as is; `low_balance_threshold` is in the pricing currency.
+ */
+export interface WebhookRecord {
+  id: string;
+  wallet_address: string;
+  url: string;
+  secret: string;
+  events: WebhookEventType[];
+  low_balance_threshold?: number;
+  created_at: number;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+/**
+ * One event queued for one webhook, retried until it is delivered or runs
+ * out of attempts. Each attempt is logged in webhook_delivery_attempts.
+ */
+export interface WebhookDeliveryRecord {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event_type: WebhookEventType;
+  payload: string;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: number;
+  last_status_code?: number;
+  last_error?: string;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface WebhookDeliveryAttempt {
+  delivery_id: string;
+  attempt: number;
+  status_code?: number;
+  error?: string;
+  duration_ms: number;
+  created_at: number;
+}
+
+/**
+ * A committed change to a budget balance, published by the storage layer.
+ * Amounts and balances are in the token's smallest unit.
+ */
+export interface BudgetEvent {
+  type: 'deposit.confirmed' | 'article.purchased';
+  walletAddress: string;
+  signatureId: string;
+  solanaCluster: 'mainnet-beta' | 'devnet';
+  tokenMintAddress: string;
+  tokenSymbol: string;
+  decimal: number;
+  amount: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  articleId?: string;
+  agentKeyId?: string;
+  price?: number;
+}
+
+export type IdempotencyStatus = 'in_progress' | 'completed';
+
+export interface IdempotencyRecord {
+  scope: string;
+  idempotency_key: string;
+  request_hash: string;
+  status: IdempotencyStatus;
+  response_status?: number;
+  response_body?: any;
+  expires_at: number;
   created_at: number;
 }
 
@@ -249,6 +763,24 @@ export interface PaymentContext {
   tokenMintAddress: string;
   amount: number;
   articleId?: string;
+  agentKeyId?: string;
+  // Article price in the pricing currency, counted against the agent key's
+  // cap and the reader's spending limits
+  price?: number;
+  // How the payment is credited; all to the recipient wallet when unset
+  splits?: RevenueSplit[];
+}
+
+// 'already_entitled': a parallel request bought the article first, nothing was charged
+export type ArticlePaymentFailureReason = 'insufficient_budget' | 'agent_key_cap_exceeded' | 'limit_exceeded' | 'already_entitled';
+
+export interface ArticlePaymentResult {
+  success: boolean;
+  requiresOneTimePayment: boolean;
+  signatureId?: string;
+  reason?: ArticlePaymentFailureReason;
+  // Which spending limit a 'limit_exceeded' payment would have broken
+  limit?: SpendingLimitType;
 }
 
 export interface TopUpContext {
@@ -261,4 +793,15 @@ export interface TopUpContext {
   tokenSymbol: string;
   tokenMintAddress: string;
   memoValue?: string;
+}
+
+export interface WithdrawalContext {
+  withdrawalId: string;
+  walletAddress: string;
+  payoutWallet: string;
+  solanaCluster: 'mainnet-beta' | 'devnet';
+  amount: number;
+  decimal: number;
+  tokenSymbol: string;
+  tokenMintAddress: string;
 }
\ No newline at end of file
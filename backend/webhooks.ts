@@ -0,0 +1,353 @@
+// webhooks.ts - signed budget notifications to wallets' webhook URLs
+import { createHmac, randomBytes } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { budgetEvents } from './budget-events';
+import { config } from './config';
+import { budgetLogger } from './logger';
+import { storage } from './storage';
+import { BudgetEvent, WebhookDeliveryRecord, WebhookEventType, WebhookRecord } from './types';
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = ['budget.low', 'budget.depleted', 'deposit.confirmed', 'article.purchased'];
+
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+const WEBHOOK_RETRY_MAX_DELAY = 6 * 60 * 60; // 6 hours
+const WEBHOOK_POLL_INTERVAL_MS = 15 * 1000;
+
+// Hosts a production webhook may not point at: loopback, link-local (which
+// includes cloud metadata endpoints), private and unique-local networks.
+// IPv4-mapped IPv6 addresses are checked against the IPv4 ranges.
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+PRIVATE_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+const INTERNAL_HOSTNAME_PATTERN = /(^|\.)(localhost|internal|local)$/i;
+
+/**
+ * The JSON body POSTed to a webhook
+ */
+export interface WebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+export function generateWebhookSecret(): string {
+  return `${WEBHOOK_SECRET_PREFIX}${randomBytes(24).toString('base64url')}`;
+}
+
+/**
+ * The `X402-Signature` header for a payload: an HMAC-SHA256, keyed with the
+ * webhook secret, over `<timestamp>.<body>`
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Seconds to wait after the given number of failed attempts, doubling from
+ * WEBHOOK_RETRY_BASE_DELAY up to six hours
+ */
+export function getWebhookRetryDelay(failedAttempts: number): number {
+  return Math.min(config.webhookRetryBaseDelay * Math.pow(2, Math.max(failedAttempts - 1, 0)), WEBHOOK_RETRY_MAX_DELAY);
+}
+
+/**
+ * Webhook URLs must be https (http is allowed outside production) and may
+ * not carry credentials
+ */
+export function isValidWebhookUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url);
+    const allowedProtocols = config.nodeEnv === 'production' ? ['https:'] : ['https:', 'http:'];
+    return allowedProtocols.includes(parsed.protocol) && !parsed.username && !parsed.password;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Why a webhook URL's host may not be called, or null if it may. In
+ * production the host must resolve only to public addresses, so a webhook
+ * cannot reach the server's own network; local targets are allowed
+ * elsewhere for development. Checked when a webhook is registered and again
+ * before every delivery, since the host can resolve differently later.
+ */
+export async function checkWebhookHost(url: string): Promise<string | null> {
+  if (config.nodeEnv !== 'production') {
+    return null;
+  }
+
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  if (INTERNAL_HOSTNAME_PATTERN.test(hostname)) {
+    return `Webhook host ${hostname} is internal`;
+  }
+
+  let addresses: { address: string }[];
+  try {
+    addresses = await lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    return `Webhook host ${hostname} could not be resolved`;
+  }
+
+  if (addresses.some(({ address }) => PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4'))) {
+    return `Webhook host ${hostname} resolves to a private address`;
+  }
+  return null;
+}
+
+/**
+ * Webhook as returned by the API, without its secret
+ */
+export function describeWebhook(webhook: WebhookRecord) {
+  return {
+    id: webhook.id,
+    url: webhook.url,
+    events: webhook.events,
+    lowBalanceThreshold: webhook.low_balance_threshold ?? config.webhookLowBalanceThreshold,
+    createdAt: new Date(webhook.created_at * 1000).toISOString()
+  };
+}
+
+function toTokenAmount(amount: number, decimal: number): number {
+  return amount / Math.pow(10, decimal);
+}
+
+/**
+ * Value of one token in the pricing currency, as configured in ACCEPTED_TOKENS
+ */
+function getTokenPrice(tokenMintAddress: string): number {
+  return config.acceptedTokens.find(token => token.mint === tokenMintAddress)?.price ?? 1;
+}
+
+/**
+ * Hands budget events to the webhooks subscribed to them. Each delivery is
+ * tried once straight away, then retried with exponential backoff until it
+ * succeeds or runs out of attempts. Every attempt is logged.
+ */
+export class WebhookDispatcher {
+  private inFlight = new Set<string>();
+  private unsubscribe: (() => void) | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Start listening for budget events and retrying due deliveries
+   */
+  start(): void {
+    if (this.unsubscribe) {
+      return;
+    }
+
+    this.unsubscribe = budgetEvents.subscribe(event => this.enqueue(event).then(() => undefined));
+    this.retryTimer = setInterval(() => {
+      this.processDue().catch((error: any) => {
+        budgetLogger.warn({ error: error.message }, "Failed to retry webhook deliveries");
+      });
+    }, WEBHOOK_POLL_INTERVAL_MS);
+    this.retryTimer.unref();
+  }
+
+  stop(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Queue deliveries of a budget event to the wallet's webhooks and make the
+   * first attempt. Returns the number of deliveries queued.
+   */
+  async enqueue(event: BudgetEvent): Promise<number> {
+    const webhooks = await storage.getWebhooksByWallet(event.walletAddress);
+    if (webhooks.length === 0) {
+      return 0;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const eventIds = new Map<WebhookEventType, string>();
+    const queued: { delivery: WebhookDeliveryRecord; webhook: WebhookRecord }[] = [];
+
+    for (const webhook of webhooks) {
+      for (const webhookEvent of this.buildEvents(event, webhook)) {
+        if (!webhook.events.includes(webhookEvent.type)) {
+          continue;
+        }
+
+        // Every subscriber sees the same id for the same event
+        if (!eventIds.has(webhookEvent.type)) {
+          eventIds.set(webhookEvent.type, `evt_${uuidv4()}`);
+        }
+        webhookEvent.id = eventIds.get(webhookEvent.type)!;
+
+        queued.push({
+          webhook,
+          delivery: {
+            id: `whdelivery-${uuidv4()}`,
+            webhook_id: webhook.id,
+            event_id: webhookEvent.id,
+            event_type: webhookEvent.type,
+            payload: JSON.stringify(webhookEvent),
+            status: 'pending',
+            attempts: 0,
+            next_attempt_at: now,
+            created_at: now,
+            updated_at: now
+          }
+        });
+      }
+    }
+
+    await storage.createWebhookDeliveries(queued.map(({ delivery }) => delivery));
+    await Promise.all(queued.map(({ delivery, webhook }) => this.deliver(delivery, webhook)));
+    return queued.length;
+  }
+
+  /**
+   * Retry every pending delivery whose next attempt is due
+   */
+  async processDue(): Promise<number> {
+    const due = await storage.getDueWebhookDeliveries();
+    for (const delivery of due) {
+      await this.deliver(delivery, await storage.getWebhook(delivery.webhook_id));
+    }
+    return due.length;
+  }
+
+  /**
+   * Make one delivery attempt and record its outcome. A delivery counts as
+   * delivered on any 2xx response; redirects are not followed.
+   */
+  async deliver(delivery: WebhookDeliveryRecord, webhook: WebhookRecord | null): Promise<void> {
+    if (this.inFlight.has(delivery.id)) {
+      return;
+    }
+    this.inFlight.add(delivery.id);
+
+    try {
+      const attempt = delivery.attempts + 1;
+      const startedAt = Date.now();
+      let statusCode: number | undefined;
+      let error: string | undefined;
+
+      const hostRejection = webhook && await checkWebhookHost(webhook.url);
+
+      if (!webhook) {
+        error = 'Webhook deleted';
+      } else if (hostRejection) {
+        error = hostRejection;
+      } else {
+        try {
+          const timestamp = Math.floor(startedAt / 1000);
+          const response = await fetch(webhook.url, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'User-Agent': 'x402-webhooks/1.0',
+              'X402-Webhook-Id': webhook.id,
+              'X402-Delivery-Id': delivery.id,
+              'X402-Event-Type': delivery.event_type,
+              'X402-Signature': signWebhookPayload(webhook.secret, timestamp, delivery.payload)
+            },
+            body: delivery.payload,
+            redirect: 'manual',
+            signal: AbortSignal.timeout(config.webhookTimeoutMs)
+          });
+
+          statusCode = response.status;
+          await response.body?.cancel();
+          if (statusCode < 200 || statusCode >= 300) {
+            error = `Webhook responded with HTTP ${statusCode}`;
+          }
+        } catch (requestError: any) {
+          error = requestError.message;
+        }
+      }
+
+      const now = Math.floor(Date.now() / 1000);
+      const status = !error ? 'delivered' : (!webhook || attempt >= config.webhookMaxAttempts) ? 'failed' : 'pending';
+      const nextAttemptAt = status === 'pending' ? now + getWebhookRetryDelay(attempt) : now;
+
+      await storage.recordWebhookAttempt({
+        delivery_id: delivery.id,
+        attempt,
+        status_code: statusCode,
+        error,
+        duration_ms: Date.now() - startedAt
+      }, status, nextAttemptAt);
+
+      const logContext = { deliveryId: delivery.id, webhookId: delivery.webhook_id, eventType: delivery.event_type, attempt, statusCode, error };
+      if (status === 'delivered') {
+        budgetLogger.debug(logContext, "Webhook delivered");
+      } else if (status === 'failed') {
+        budgetLogger.warn(logContext, "Webhook delivery failed, giving up");
+      } else {
+        budgetLogger.info({ ...logContext, nextAttemptAt }, "Webhook delivery failed, will retry");
+      }
+    } catch (error: any) {
+      budgetLogger.error({ error: error.message, deliveryId: delivery.id }, "Failed to deliver webhook");
+    } finally {
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  /**
+   * The webhook events a budget event stands for. `budget.low` is sent when
+   * a purchase takes the token's balance below the webhook's threshold, and
+   * `budget.depleted` when the balance left no longer covers another article
+   * at the same price.
+   */
+  private buildEvents(event: BudgetEvent, webhook: WebhookRecord): WebhookEvent[] {
+    const createdAt = new Date().toISOString();
+    const balance = toTokenAmount(event.balanceAfter, event.decimal);
+    const common = {
+      walletAddress: event.walletAddress,
+      cluster: event.solanaCluster,
+      token: event.tokenMintAddress,
+      symbol: event.tokenSymbol,
+      signatureId: event.signatureId,
+      balance
+    };
+    const amount = toTokenAmount(event.amount, event.decimal);
+
+    if (event.type === 'deposit.confirmed') {
+      return [{ id: '', type: 'deposit.confirmed', createdAt, data: { ...common, amount } }];
+    }
+
+    const events: WebhookEvent[] = [{
+      id: '',
+      type: 'article.purchased',
+      createdAt,
+      data: { ...common, amount, articleId: event.articleId ?? null, price: event.price ?? null, agentKeyId: event.agentKeyId ?? null }
+    }];
+
+    const price = getTokenPrice(event.tokenMintAddress);
+    const threshold = webhook.low_balance_threshold ?? config.webhookLowBalanceThreshold;
+    const valueBefore = toTokenAmount(event.balanceBefore, event.decimal) * price;
+    const valueAfter = balance * price;
+    if (valueBefore >= threshold && valueAfter < threshold) {
+      events.push({ id: '', type: 'budget.low', createdAt, data: { ...common, balanceValue: valueAfter, threshold } });
+    }
+
+    if (event.balanceAfter < event.amount) {
+      events.push({ id: '', type: 'budget.depleted', createdAt, data: common });
+    }
+
+    return events;
+  }
+}
+
+export const webhookDispatcher = new WebhookDispatcher();
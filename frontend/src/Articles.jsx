@@ -5,7 +5,7 @@ import { SendSolanaTransactionButton } from "@coinbase/cdp-react/components/Send
 import PaymentInfoDialog from "./PaymentInfoDialog.jsx";
 
 function Articles() {
-  const { fetchWith402, API_BASE, solanaAddress, createPaymentTransaction, isWalletError } = useX402();
+  const { fetchWith402, getSessionToken, API_BASE, solanaAddress, createPaymentTransaction, isWalletError } = useX402();
   const { isSignedIn } = useIsSignedIn();
 
   // State for articles data
@@ -67,6 +67,7 @@ function Articles() {
         headers: {
           ...pendingPayment?.options?.headers,
           'x402-payer-pubkey': solanaAddress, // lowercase as per API docs
+          'x402-session-token': await getSessionToken(),
           'Authorization': `x402 ${signature}`, // correct format
           // Try different header names for the amount
           'x402-amount': amountInSmallestUnit.toString(),
@@ -78,7 +79,19 @@ function Articles() {
       console.log("Retry URL:", retryUrl);
       console.log("Retry options:", retryOptions);
 
-      const finalRes = await fetch(retryUrl, retryOptions);
+      let finalRes = await fetch(retryUrl, retryOptions);
+
+      // Not on chain yet: the backend confirms it in the background, so wait
+      // for that instead of paying again, then claim the article
+      while (finalRes.status === 202) {
+        const { statusUrl } = await finalRes.json();
+        console.log("Payment pending confirmation, waiting:", statusUrl);
+        const statusRes = await fetch(`${API_BASE}${statusUrl}?wait=25`);
+        if (!statusRes.ok) {
+          throw new Error(`Payment is still awaiting confirmation (status ${statusRes.status})`);
+        }
+        finalRes = await fetch(retryUrl, retryOptions);
+      }
 
       if (!finalRes.ok) {
         const errorText = await finalRes.text();
@@ -1,6 +1,6 @@
 import { Buffer } from "buffer";
-import React, { createContext, useCallback } from "react";
-import { useSolanaAddress, useIsSignedIn } from "@coinbase/cdp-hooks";
+import React, { createContext, useCallback, useEffect, useRef } from "react";
+import { useSolanaAddress, useIsSignedIn, useSignSolanaMessage } from "@coinbase/cdp-hooks";
 import { v4 as uuidv4 } from 'uuid';
 import { PublicKey, Transaction, TransactionInstruction, clusterApiUrl, Connection } from "@solana/web3.js";
 import { getMint, createTransferInstruction, getAssociatedTokenAddress, createAssociatedTokenAccountInstruction, getAccount } from "@solana/spl-token";
@@ -27,6 +27,19 @@ const connection = new Connection(clusterApiUrl(network));
 export function X402Provider({ children }) {
   const { solanaAddress } = useSolanaAddress();
   const { isSignedIn } = useIsSignedIn();
+  const { signSolanaMessage } = useSignSolanaMessage();
+
+  // Sign-In With Solana session for the connected wallet: the backend only
+  // spends a budget for a wallet that proved it holds the key
+  const session = useRef(null);
+
+  useEffect(() => {
+    if (session.current && session.current.address !== solanaAddress) {
+      session.current = null;
+    }
+  }, [solanaAddress]);
+
+  const API_BASE = (import.meta.env.VITE_API_URL || "").replace(/\/$/, "");
 
   // Convert string address to PublicKey object when needed
   const publicKey = solanaAddress ? new PublicKey(solanaAddress) : null;
@@ -42,52 +55,58 @@ export function X402Provider({ children }) {
 
     const tx = new Transaction();
     const mintPubKey = new PublicKey(invoice.token);
-    const recipientWalletPubKey = new PublicKey(invoice.recipientWallet);
     const payerPubKey = publicKey;
 
     const mintInfo = await getMint(connection, mintPubKey);
-    const amountInSmallestUnit = BigInt(
-      Math.floor(invoice.amount * Math.pow(10, mintInfo.decimals))
-    );
-
-    console.log("Transaction creation details:");
-    console.log("- Invoice amount:", invoice.amount);
-    console.log("- Mint decimals:", mintInfo.decimals);
-    console.log("- Calculated amount in smallest unit:", amountInSmallestUnit.toString());
-    console.log("- Expected amount in smallest unit:", (0.5 * Math.pow(10, mintInfo.decimals)).toString());
-
     const payerTokenAccountAddress = await getAssociatedTokenAddress(
       mintPubKey,
       payerPubKey
     );
-    const recipientTokenAccountAddress = await getAssociatedTokenAddress(
-      mintPubKey,
-      recipientWalletPubKey
-    );
 
-    try {
-      await getAccount(connection, recipientTokenAccountAddress);
-    } catch (err) {
-      console.log("Recipient ATA does not exist, creating...");
+    // Split invoices list every wallet with its part of the amount
+    const recipients = invoice.recipients?.length
+      ? invoice.recipients
+      : [{ wallet: invoice.recipientWallet, amount: invoice.amount }];
+
+    for (const recipient of recipients) {
+      const recipientWalletPubKey = new PublicKey(recipient.wallet);
+      // Transfer exactly what the invoice asks for; only invoices built here,
+      // such as budget deposits, come without the smallest-unit amount
+      const amountInSmallestUnit = recipient.amountSmallestUnit !== undefined
+        ? BigInt(recipient.amountSmallestUnit)
+        : BigInt(Math.round(recipient.amount * Math.pow(10, mintInfo.decimals)));
+
+      console.log("Transfer to", recipient.wallet, ":", amountInSmallestUnit.toString());
+
+      const recipientTokenAccountAddress = await getAssociatedTokenAddress(
+        mintPubKey,
+        recipientWalletPubKey
+      );
+
+      try {
+        await getAccount(connection, recipientTokenAccountAddress);
+      } catch (err) {
+        console.log("Recipient ATA does not exist, creating...");
+        tx.add(
+          createAssociatedTokenAccountInstruction(
+            payerPubKey,
+            recipientTokenAccountAddress,
+            recipientWalletPubKey,
+            mintPubKey
+          )
+        );
+      }
+
       tx.add(
-        createAssociatedTokenAccountInstruction(
-          payerPubKey,
+        createTransferInstruction(
+          payerTokenAccountAddress,
           recipientTokenAccountAddress,
-          recipientWalletPubKey,
-          mintPubKey
+          payerPubKey,
+          amountInSmallestUnit
         )
       );
     }
 
-    tx.add(
-      createTransferInstruction(
-        payerTokenAccountAddress,
-        recipientTokenAccountAddress,
-        payerPubKey,
-        amountInSmallestUnit
-      )
-    );
-
     tx.add(
       new TransactionInstruction({
         keys: [{ pubkey: payerPubKey, isSigner: true, isWritable: false }],
@@ -117,6 +136,46 @@ export function X402Provider({ children }) {
     return await createAndEncodeTransaction(invoice, memo);
   }, [isSignedIn, solanaAddress, createAndEncodeTransaction]);
 
+  // Get a session token for the connected wallet, signing in when there is
+  // none yet or it is about to expire
+  const getSessionToken = useCallback(async () => {
+    if (!isSignedIn || !solanaAddress) {
+      throw new Error("Wallet not connected.");
+    }
+
+    const current = session.current;
+    if (current && current.address === solanaAddress && Date.parse(current.expiresAt) - Date.now() > 60000) {
+      return current.sessionToken;
+    }
+
+    const nonceRes = await fetch(`${API_BASE}/api/auth/nonce?address=${solanaAddress}`);
+    if (!nonceRes.ok) {
+      throw new Error(`Failed to start sign-in: ${nonceRes.status}`);
+    }
+    const { nonce, message } = await nonceRes.json();
+
+    // CDP signs the base64 of the message bytes and returns a base58 signature
+    const { signature } = await signSolanaMessage({
+      solanaAccount: solanaAddress,
+      message: Buffer.from(message, "utf-8").toString("base64"),
+    });
+
+    const verifyRes = await fetch(`${API_BASE}/api/auth/verify`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ address: solanaAddress, nonce, signature }),
+    });
+    if (!verifyRes.ok) {
+      const errorText = await verifyRes.text();
+      throw new Error(`Sign-in failed: ${verifyRes.status} - ${errorText}`);
+    }
+
+    const { sessionToken, expiresAt } = await verifyRes.json();
+    session.current = { address: solanaAddress, sessionToken, expiresAt };
+    console.log("Signed in wallet for budget spending until", expiresAt);
+    return sessionToken;
+  }, [API_BASE, isSignedIn, solanaAddress, signSolanaMessage]);
+
   // Note: fetchWith402 is now handled by individual components using SendSolanaTransactionButton
   // This function will need to be called with a callback that handles the transaction signing
   const fetchWith402 = useCallback(
@@ -127,6 +186,7 @@ export function X402Provider({ children }) {
 
       const headers = new Headers(options.headers || {});
       headers.append("x402-Payer-Pubkey", solanaAddress);
+      headers.append("x402-session-token", await getSessionToken());
 
       const res = await fetch(url, { ...options, headers });
 
@@ -145,11 +205,9 @@ export function X402Provider({ children }) {
         throw new Error(`HTTP Error: ${res.status} ${res.statusText} - ${errorText}`);
       }
     },
-    [solanaAddress]
+    [solanaAddress, getSessionToken]
   );
 
-  const API_BASE = (import.meta.env.VITE_API_URL || "").replace(/\/$/, "");
-
   const depositBudget = useCallback(
     async (_invoiceUrl, amount) => {
       if (!solanaAddress) {
@@ -196,6 +254,7 @@ export function X402Provider({ children }) {
 
   const value = {
     fetchWith402,
+    getSessionToken,
     depositBudget,
     createPaymentTransaction,
     API_BASE,